@@ -0,0 +1,56 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useFrame } from '@react-three/fiber'
+import * as THREE from 'three'
+import { createStrokeBatch, disposeStrokeBatch, fadeStrokeBatch, syncStrokeBatch } from '../lib/stroke-batch'
+import type { StrokeBatch } from '../lib/stroke-batch'
+import type { PenStroke, StrokeBehavior } from '../types/game'
+
+interface BatchedStrokesProps {
+  strokes: PenStroke[]
+  clock?: () => number // the match clock strokes expire on
+}
+
+// Stroke colours come from the batch's per-instance colour, so materials stay white
+function createMaterial(behavior: StrokeBehavior): THREE.Material {
+  switch (behavior) {
+    case 'wall':
+      return new THREE.MeshStandardMaterial({ metalness: 0.6, roughness: 0.3 })
+    case 'trap':
+      return new THREE.MeshStandardMaterial({ emissive: '#ff2222', emissiveIntensity: 0.6, transparent: true, opacity: 0.6 })
+    default:
+      return new THREE.MeshStandardMaterial({ transparent: true, opacity: 0.9 })
+  }
+}
+
+const BEHAVIORS: StrokeBehavior[] = ['attack', 'wall', 'trap']
+
+// Renders settled strokes, one draw call per behaviour
+export function BatchedStrokes({ strokes, clock = Date.now }: BatchedStrokesProps) {
+  const [batches, setBatches] = useState<{ behavior: StrokeBehavior; batch: StrokeBatch }[]>([])
+
+  // Created in an effect so that the cleanup which frees them always pairs with their creation
+  useEffect(() => {
+    const created = BEHAVIORS.map(behavior => ({ behavior, batch: createStrokeBatch(createMaterial(behavior)) }))
+    setBatches(created)
+    return () => created.forEach(({ batch }) => disposeStrokeBatch(batch))
+  }, [])
+
+  const grouped = useMemo(() => BEHAVIORS.map(behavior => strokes.filter(stroke => (stroke.behavior ?? 'attack') === behavior)), [strokes])
+
+  useEffect(() => {
+    batches.forEach(({ batch }, i) => syncStrokeBatch(batch, grouped[i]))
+  }, [batches, grouped])
+
+  useFrame(() => {
+    const now = clock()
+    batches.forEach(({ batch }, i) => fadeStrokeBatch(batch, grouped[i], now))
+  })
+
+  return (
+    <>
+      {batches.map(({ behavior, batch }) => (
+        <primitive key={behavior} object={batch.mesh} />
+      ))}
+    </>
+  )
+}
@@ -1,4 +1,4 @@
-import { useRef, useEffect, useState, useCallback } from 'react'
+import { useRef, useEffect, useState, useCallback, useMemo } from 'react'
 import { Canvas, useFrame, useThree } from '@react-three/fiber'
 import { OrbitControls, Text, Box, Sphere, Line } from '@react-three/drei'
 import * as THREE from 'three'
@@ -6,10 +6,33 @@ import { Button } from './ui/button'
 import { Card } from './ui/card'
 import { Badge } from './ui/badge'
 import { Progress } from './ui/progress'
-import { Sword, Shield, Heart, Users, MessageCircle, Target, Zap, Clock, Trophy } from 'lucide-react'
-import { blink } from '../blink/client'
+import { Sword, Shield, Heart, Users, MessageCircle, Target, Zap, Clock, Crown, Skull } from 'lucide-react'
+import { openChannel } from '../realtime/channel'
+import { createSimulatedTransport } from '../realtime/network-simulator'
+import { NetworkConditionsOverlay } from './NetworkConditionsOverlay'
+import { TouchJoystick } from './TouchJoystick'
 import { PowerUp } from './PowerUp'
-import type { Player, GameState, PenStroke, GameMessage, PowerUpData, ActivePowerUp } from '../types/game'
+import { BatchedStrokes } from './BatchedStrokes'
+import { MatchResults } from './MatchResults'
+import { useGameSimulation } from '../hooks/use-game-simulation'
+import { MAX_STROKE_POINTS, messageToInput, MOVE_SEND_RATE, rankTeams, STROKE_BEHAVIORS, strokeInkCost, strokeLength, toSnapshot } from '../game/simulation'
+import { collectStrokes, createStrokeRequests, takeStrokeRequests } from '../game/stroke-sync'
+import { getMatchRules, getStrokeRules } from '../game/modes'
+import { GESTURE_ATTACKS, recognizeGesture } from '../game/gestures'
+import { shouldSamplePoint, simplifyStroke } from '../game/stroke-points'
+import { electHost, isFromHost, JOIN_RETRY_MS, SNAPSHOT_INTERVAL_MS } from '../game/authority'
+import { decodeMessage, encodePayload } from '../game/protocol'
+import { INTERPOLATION_DELAY_MS, sampleAt, strokeReveal } from '../game/interpolation'
+import type { InterpolationBuffer } from '../game/interpolation'
+import { useInterpolation } from '../hooks/use-interpolation'
+import { useMatchClock } from '../hooks/use-match-clock'
+import { DRAWING_SURFACES, projectPointer } from '../lib/drawing-surface'
+import { createGrowingStroke, growStroke, strokeFade } from '../lib/stroke-geometry'
+import { isSettledStroke } from '../lib/stroke-batch'
+import { useStrokeGeometry } from '../hooks/use-stroke-geometry'
+import type { DrawingSurface } from '../lib/drawing-surface'
+import type { RealtimeTransport } from '../realtime/transport'
+import type { Player, GameState, GameSnapshot, GameMessagePayloads, PenStroke, SimulationEvent, StrokeBehavior, StrokePoint } from '../types/game'
 import type { GameMode } from './GameModeSelector'
 
 interface GameArenaProps {
@@ -20,50 +43,106 @@ interface GameArenaProps {
   onLeaveGame: () => void
 }
 
+const STROKE_BEHAVIOR_OPTIONS: { id: StrokeBehavior; label: string }[] = [
+  { id: 'attack', label: 'Attack' },
+  { id: 'wall', label: 'Wall' },
+  { id: 'trap', label: 'Trap' }
+]
+
 // Enhanced 3D Pen Stroke Component with glow effect
-function PenStrokeRenderer({ stroke, isAttacking = false }: { stroke: PenStroke; isAttacking?: boolean }) {
+function PenStrokeRenderer({ stroke, isAttacking = false, interpolation, clock = Date.now }: { stroke: PenStroke; isAttacking?: boolean; interpolation?: InterpolationBuffer; clock?: () => number }) {
   const meshRef = useRef<THREE.Mesh>(null)
+  const materialRef = useRef<THREE.MeshStandardMaterial>(null)
+  const geometry = useStrokeGeometry(stroke)
+  const opacity = stroke.behavior === 'wall' ? 1 : stroke.behavior === 'trap' ? 0.6 : 0.9
   
   useFrame((state) => {
-    if (meshRef.current && isAttacking) {
+    if (!materialRef.current) return
+    if (isAttacking && stroke.behavior === 'attack') {
       // Add pulsing glow effect for attacking strokes
       const intensity = Math.sin(state.clock.elapsedTime * 10) * 0.3 + 0.7
-      meshRef.current.material.emissiveIntensity = intensity
+      materialRef.current.emissiveIntensity = intensity
+    }
+    materialRef.current.opacity = opacity * strokeFade(stroke, clock())
+
+    // Remote strokes draw in along their length, in step with their interpolated owner
+    if (meshRef.current && interpolation) {
+      const geometry = meshRef.current.geometry
+      const reveal = strokeReveal(interpolation, stroke.id, clock() - INTERPOLATION_DELAY_MS)
+      const count = geometry.index ? geometry.index.count : 0
+      geometry.setDrawRange(0, reveal >= 1 ? Infinity : Math.floor(count * reveal / 3) * 3)
     }
   })
 
-  if (stroke.points.length < 2) return null
-
-  const points = stroke.points.map(p => new THREE.Vector3(p.x, p.y, p.z))
-  const curve = new THREE.CatmullRomCurve3(points)
-  const geometry = new THREE.TubeGeometry(curve, points.length * 2, stroke.thickness, 8, false)
+  if (!geometry) return null
   
   return (
     <mesh ref={meshRef} geometry={geometry}>
-      <meshStandardMaterial 
-        color={stroke.color} 
-        emissive={isAttacking ? stroke.color : '#000000'}
-        emissiveIntensity={isAttacking ? 0.5 : 0}
-        transparent
-        opacity={0.9}
-      />
+      {stroke.behavior === 'wall' ? (
+        <meshStandardMaterial ref={materialRef} color={stroke.color} metalness={0.6} roughness={0.3} transparent opacity={opacity} />
+      ) : stroke.behavior === 'trap' ? (
+        <meshStandardMaterial ref={materialRef} color={stroke.color} emissive="#ff2222" emissiveIntensity={0.6} transparent opacity={opacity} />
+      ) : (
+        <meshStandardMaterial 
+          ref={materialRef}
+          color={stroke.color} 
+          emissive={isAttacking ? stroke.color : '#000000'}
+          emissiveIntensity={isAttacking ? 0.5 : 0}
+          transparent
+          opacity={opacity}
+        />
+      )}
+    </mesh>
+  )
+}
+
+// The stroke being drawn, grown in place as points are added
+function LiveStrokeRenderer({ stroke }: { stroke: PenStroke }) {
+  const materialRef = useRef<THREE.MeshStandardMaterial>(null)
+  // Keyed by stroke id, so each stroke gets its own buffers
+  const growing = useMemo(() => createGrowingStroke(), [])
+
+  useEffect(() => {
+    growStroke(growing, stroke)
+  }, [growing, stroke])
+
+  useEffect(() => () => growing.geometry.dispose(), [growing])
+
+  useFrame((state) => {
+    if (materialRef.current) {
+      materialRef.current.emissiveIntensity = Math.sin(state.clock.elapsedTime * 10) * 0.3 + 0.7
+    }
+  })
+
+  return (
+    <mesh geometry={growing.geometry} frustumCulled={false}>
+      <meshStandardMaterial ref={materialRef} color={stroke.color} emissive={stroke.color} transparent opacity={0.9} />
     </mesh>
   )
 }
 
 // Enhanced Player Avatar Component with health visualization
-function PlayerAvatar({ player, isCurrentPlayer }: { player: Player; isCurrentPlayer: boolean }) {
+function PlayerAvatar({ player, isCurrentPlayer, interpolation, clock = Date.now }: { player: Player; isCurrentPlayer: boolean; interpolation?: InterpolationBuffer; clock?: () => number }) {
+  const groupRef = useRef<THREE.Group>(null)
   const meshRef = useRef<THREE.Mesh>(null)
   const healthBarRef = useRef<THREE.Mesh>(null)
   
   useFrame((state) => {
+    // Remote players render slightly in the past, blended between received positions
+    const pose = interpolation && sampleAt(interpolation, player.id, clock() - INTERPOLATION_DELAY_MS)
+    const position = pose ? pose.position : player.position
+    const rotation = pose ? pose.rotation : player.rotation
+
+    if (groupRef.current) {
+      groupRef.current.position.set(position.x, position.y, position.z)
+    }
+
     if (meshRef.current) {
-      meshRef.current.position.set(player.position.x, player.position.y, player.position.z)
-      meshRef.current.rotation.set(player.rotation.x, player.rotation.y, player.rotation.z)
+      meshRef.current.rotation.set(rotation.x, rotation.y, rotation.z)
       
       // Add floating animation
       const floatOffset = Math.sin(state.clock.elapsedTime * 2 + player.id.length) * 0.1
-      meshRef.current.position.y = player.position.y + floatOffset
+      meshRef.current.position.y = floatOffset
       
       // Pulse effect when drawing
       if (player.isDrawing) {
@@ -92,9 +171,9 @@ function PlayerAvatar({ player, isCurrentPlayer }: { player: Player; isCurrentPl
   })
 
   return (
-    <group>
+    <group ref={groupRef}>
       {/* Player Sphere */}
-      <Sphere ref={meshRef} args={[0.5]} position={[player.position.x, player.position.y, player.position.z]}>
+      <Sphere ref={meshRef} args={[0.5]}>
         <meshStandardMaterial 
           color={player.color} 
           emissive={isCurrentPlayer ? player.color : (player.isDrawing ? player.color : '#000000')}
@@ -106,7 +185,7 @@ function PlayerAvatar({ player, isCurrentPlayer }: { player: Player; isCurrentPl
       
       {/* Player Name */}
       <Text
-        position={[player.position.x, player.position.y + 1.2, player.position.z]}
+        position={[0, 1.2, 0]}
         fontSize={0.25}
         color="white"
         anchorX="center"
@@ -118,7 +197,7 @@ function PlayerAvatar({ player, isCurrentPlayer }: { player: Player; isCurrentPl
       {/* Health Bar Background */}
       <Box 
         args={[1, 0.1, 0.02]} 
-        position={[player.position.x, player.position.y + 0.8, player.position.z]}
+        position={[0, 0.8, 0]}
       >
         <meshStandardMaterial color="#333333" transparent opacity={0.7} />
       </Box>
@@ -127,14 +206,21 @@ function PlayerAvatar({ player, isCurrentPlayer }: { player: Player; isCurrentPl
       <Box 
         ref={healthBarRef}
         args={[1, 0.08, 0.03]} 
-        position={[player.position.x, player.position.y + 0.8, player.position.z]}
+        position={[0, 0.8, 0]}
       >
         <meshStandardMaterial color="#00ff00" />
       </Box>
       
+      {/* Shield bubble */}
+      {player.activePowerUps.some(effect => effect.type === 'shield') && (
+        <Sphere args={[0.8]}>
+          <meshStandardMaterial color="#60a5fa" emissive="#60a5fa" emissiveIntensity={0.4} transparent opacity={0.25} />
+        </Sphere>
+      )}
+      
       {/* Drawing Indicator */}
       {player.isDrawing && (
-        <Sphere args={[0.1]} position={[player.position.x, player.position.y + 0.6, player.position.z]}>
+        <Sphere args={[0.1]} position={[0, 0.6, 0]}>
           <meshStandardMaterial 
             color="#ffffff" 
             emissive="#ffffff" 
@@ -166,167 +252,192 @@ function POVCamera({ player }: { player: Player }) {
   return null
 }
 
+interface DrawingView {
+  camera: THREE.Camera
+  element: HTMLElement
+}
+
+// Exposes the active camera and canvas so pointer input outside the render loop can raycast
+function DrawingViewTracker({ viewRef }: { viewRef: React.RefObject<DrawingView | null> }) {
+  const { camera, gl } = useThree()
+
+  useEffect(() => {
+    viewRef.current = { camera, element: gl.domElement }
+  }, [camera, gl, viewRef])
+
+  return null
+}
+
+const MATCH_STATUS: Record<GameState['gameStatus'], { label: string; className: string }> = {
+  waiting: { label: 'Waiting', className: 'bg-slate-600' },
+  countdown: { label: 'Starting', className: 'bg-yellow-600' },
+  playing: { label: 'Battle Active', className: 'bg-green-600' },
+  finished: { label: 'Match Over', className: 'bg-purple-600' }
+}
+
 // Main Game Arena Component
 export function GameArena({ roomId, playerName, currentUser, gameMode, onLeaveGame }: GameArenaProps) {
-  const [gameState, setGameState] = useState<GameState>({
+  const [currentPlayerId] = useState(currentUser.id)
+  const [isDrawing, setIsDrawing] = useState(false)
+  const [currentStroke, setCurrentStroke] = useState<PenStroke | null>(null)
+  const [chatMessages, setChatMessages] = useState<string[]>([])
+  const [povMode, setPovMode] = useState(false)
+  const [keys, setKeys] = useState<Record<string, boolean>>({})
+  const [clock, setClock] = useState(() => Date.now())
+  const [hostId, setHostId] = useState<string | null>(null)
+  
+  const [showNetworkPanel, setShowNetworkPanel] = useState(false)
+  const [drawingSurface, setDrawingSurface] = useState<DrawingSurface>('camera_plane')
+  const [strokeBehavior, setStrokeBehavior] = useState<StrokeBehavior>('attack')
+  const [touchDirection, setTouchDirection] = useState({ x: 0, z: 0 })
+  const [isTouchDevice] = useState(() => window.matchMedia('(pointer: coarse)').matches)
+  
+  const channelRef = useRef<RealtimeTransport | null>(null)
+  const hostRef = useRef<string | null>(null)
+  const lastSnapshotRef = useRef<GameSnapshot | null>(null)
+  const pendingMoveRef = useRef<GameMessagePayloads['player_move'] | null>(null)
+  const viewRef = useRef<DrawingView | null>(null)
+  const drawingPointerRef = useRef<number | null>(null)
+  const lastStrokeSentRef = useRef(0)
+  // Stroke ids are ours alone: our id plus a counter, started from the clock so a rejoin does not reuse one
+  const strokeCounterRef = useRef(Date.now())
+  const strokeRequestsRef = useRef(createStrokeRequests())
+  const isHost = hostId === currentPlayerId
+
+  // The match clock: our time on the host's clock. The simulation, countdowns and expiries all run on it.
+  const { matchClock, receiveClockPong } = useMatchClock(channelRef, hostId, currentPlayerId)
+
+  // Publish the side effects of our own simulation to the room
+  const handleSimulationEvents = useCallback((events: SimulationEvent[]) => {
+    const channel = channelRef.current
+    if (!channel) return
+
+    events.forEach(event => {
+      if (event.type === 'power_up_spawned') {
+        channel.publish('power_up_spawn', encodePayload('power_up_spawn', {
+          powerUp: event.powerUp
+        }))
+      } else if (event.type === 'countdown_started') {
+        channel.publish('countdown_start', encodePayload('countdown_start', {
+          startTime: event.startTime,
+          countdownMs: event.countdownMs
+        }))
+      } else if (event.type === 'strokes_missing') {
+        const strokeIds = takeStrokeRequests(strokeRequestsRef.current, event.strokeIds, Date.now())
+        if (strokeIds.length > 0) {
+          channel.publish('stroke_request', encodePayload('stroke_request', { playerId: currentPlayerId, strokeIds }))
+        }
+      } else if (event.type === 'player_moved' && event.playerId === currentPlayerId) {
+        // Sent in batches at MOVE_SEND_RATE; the latest move carries every unacknowledged command
+        pendingMoveRef.current = {
+          playerId: currentPlayerId,
+          position: event.position,
+          rotation: event.rotation,
+          commands: event.commands
+        }
+      }
+    })
+  }, [currentPlayerId])
+
+  const { gameState, dispatch, getSimulation } = useGameSimulation({
     players: {},
     gameStatus: 'waiting',
     gameMode: {
       id: gameMode.id,
       name: gameMode.name,
       duration: gameMode.duration,
-      maxPlayers: gameMode.maxPlayers
+      maxPlayers: gameMode.maxPlayers,
+      friendlyFire: gameMode.friendlyFire
     },
     powerUps: {},
     roomId,
     leaderboard: []
-  })
-  const [currentPlayerId] = useState(currentUser.id)
-  const [isDrawing, setIsDrawing] = useState(false)
-  const [currentStroke, setCurrentStroke] = useState<PenStroke | null>(null)
-  const [chatMessages, setChatMessages] = useState<string[]>([])
-  const [povMode, setPovMode] = useState(false)
-  const [keys, setKeys] = useState<Record<string, boolean>>({})
-  const [gameTimer, setGameTimer] = useState<number>(0)
-  const [countdown, setCountdown] = useState<number>(0)
-  
-  const channelRef = useRef<any>(null)
+  }, { authoritative: isHost, onEvents: handleSimulationEvents, clock: matchClock })
+
+  const interpolation = useInterpolation(gameState, matchClock, currentPlayerId)
+  const settledStrokes = useMemo(() => Object.values(gameState.players).flatMap(player =>
+    player.penStrokes.filter((stroke, index) => isSettledStroke(stroke, index, player.penStrokes.length))
+  ), [gameState.players])
+
+  const currentPlayer = gameState.players[currentPlayerId]
+  const strokeRules = useMemo(() => getStrokeRules(gameState.gameMode.id), [gameState.gameMode.id])
+  const matchRules = useMemo(() => getMatchRules(gameState.gameMode.id), [gameState.gameMode.id])
+
+  // Tick the countdown and match clock while they are on screen
+  useEffect(() => {
+    if (gameState.gameStatus !== 'countdown' && gameState.gameStatus !== 'playing') return
+    const interval = setInterval(() => setClock(matchClock()), 250)
+    return () => clearInterval(interval)
+  }, [gameState.gameStatus, matchClock])
+
+  const countdownSeconds = gameState.gameStatus === 'countdown' && gameState.startTime !== undefined
+    ? Math.max(0, Math.ceil((gameState.startTime - clock) / 1000))
+    : null
+  const secondsLeft = gameState.gameStatus === 'playing' && gameState.endTime !== undefined
+    ? Math.max(0, Math.ceil((gameState.endTime - clock) / 1000))
+    : null
+  const inkInUse = currentStroke ? strokeInkCost(currentStroke, strokeRules) : 0
+  const otherPlayers = Object.values(gameState.players).filter(p => p.id !== currentPlayerId)
+  const teamStandings = useMemo(() => rankTeams(gameState.gameMode.id, Object.values(gameState.players)), [gameState.gameMode.id, gameState.players])
 
   // Power-up collection handler
   const handlePowerUpCollect = useCallback(async (powerUpId: string) => {
     if (!channelRef.current) return
 
-    const powerUp = gameState.powerUps[powerUpId]
-    if (!powerUp) return
+    if (!gameState.powerUps[powerUpId]) return
 
-    // Apply power-up effect to current player
-    const effect: ActivePowerUp = {
-      type: powerUp.type,
-      endTime: Date.now() + 10000, // 10 seconds
-      multiplier: 1.5
+    // The authority decides who gets the pickup; everyone else asks for it
+    if (isHost) {
+      dispatch({ type: 'power_up_collect', playerId: currentPlayerId, timestamp: matchClock(), powerUpId })
+    } else {
+      await channelRef.current.publish('power_up_collect', encodePayload('power_up_collect', {
+        playerId: currentPlayerId,
+        powerUpId
+      }))
     }
 
-    // Update local state immediately
-    setGameState(prev => {
-      const newPlayers = { ...prev.players }
-      if (newPlayers[currentPlayerId]) {
-        newPlayers[currentPlayerId] = {
-          ...newPlayers[currentPlayerId],
-          activePowerUps: [...newPlayers[currentPlayerId].activePowerUps, effect]
-        }
-      }
-
-      const newPowerUps = { ...prev.powerUps }
-      delete newPowerUps[powerUpId]
-
-      return {
-        ...prev,
-        players: newPlayers,
-        powerUps: newPowerUps
-      }
-    })
-
-    // Notify other players
-    await channelRef.current.publish('power_up_collect', {
-      playerId: currentPlayerId,
-      powerUpId,
-      effect
-    })
-
     // Play collection sound
     if ((window as any).gameAudio) {
       (window as any).gameAudio.playWin()
     }
-  }, [gameState.powerUps, currentPlayerId])
-
-  // Spawn power-ups periodically
-  useEffect(() => {
-    if (gameState.gameStatus !== 'playing') return
-
-    const spawnPowerUp = () => {
-      const powerUpTypes: PowerUpData['type'][] = ['speed', 'damage', 'health', 'shield', 'multishot']
-      const randomType = powerUpTypes[Math.floor(Math.random() * powerUpTypes.length)]
-      
-      const powerUp: PowerUpData = {
-        id: `powerup-${Date.now()}-${Math.random()}`,
-        type: randomType,
-        position: {
-          x: (Math.random() - 0.5) * 16, // Within arena bounds
-          y: 1,
-          z: (Math.random() - 0.5) * 16
-        },
-        timestamp: Date.now(),
-        duration: 30000 // 30 seconds before despawn
-      }
-
-      setGameState(prev => ({
-        ...prev,
-        powerUps: {
-          ...prev.powerUps,
-          [powerUp.id]: powerUp
-        }
-      }))
-
-      // Notify other players
-      if (channelRef.current) {
-        channelRef.current.publish('power_up_spawn', {
-          powerUp
-        })
-      }
-    }
-
-    // Spawn power-ups every 15 seconds
-    const interval = setInterval(spawnPowerUp, 15000)
-    
-    // Initial spawn after 5 seconds
-    const initialTimeout = setTimeout(spawnPowerUp, 5000)
+  }, [gameState.powerUps, currentPlayerId, isHost, dispatch, matchClock])
+
+  // One row of the fighters list; team modes group these under their team
+  const renderFighter = (player: Player) => (
+    <div key={player.id} className="flex items-center justify-between p-2 bg-slate-700 rounded">
+      <div className="flex items-center gap-2">
+        <div 
+          className="w-3 h-3 rounded-full"
+          style={{ backgroundColor: player.color }}
+        />
+        <span className="text-white text-sm font-medium">
+          {player.name} {player.id === currentPlayerId && '(You)'}
+        </span>
+        {player.id === hostId && <Crown className="w-3 h-3 text-yellow-400" />}
+      </div>
+      <div className="flex items-center gap-2">
+        <span className="text-xs text-slate-400">{player.kills}/{player.deaths}</span>
+        <span className="text-xs text-orange-400 font-medium">{player.score}</span>
+        {player.health > 0 ? (
+          <>
+            <Heart className="w-4 h-4 text-red-500" />
+            <Progress value={player.health} className="w-12 h-2" />
+          </>
+        ) : (
+          <Skull className="w-4 h-4 text-slate-400" />
+        )}
+      </div>
+    </div>
+  )
 
-    return () => {
-      clearInterval(interval)
-      clearTimeout(initialTimeout)
+  // A finished room goes back to waiting for the next countdown; the authority makes the call
+  const handleRematch = useCallback(() => {
+    if (isHost) {
+      dispatch({ type: 'rematch', playerId: currentPlayerId, timestamp: matchClock() })
+    } else {
+      channelRef.current?.publish('rematch_request', encodePayload('rematch_request', { playerId: currentPlayerId }))
     }
-  }, [gameState.gameStatus])
-
-  // Clean up expired power-ups
-  useEffect(() => {
-    const cleanupInterval = setInterval(() => {
-      const now = Date.now()
-      
-      setGameState(prev => {
-        const newPowerUps = { ...prev.powerUps }
-        let changed = false
-        
-        Object.keys(newPowerUps).forEach(id => {
-          if (now - newPowerUps[id].timestamp > newPowerUps[id].duration) {
-            delete newPowerUps[id]
-            changed = true
-          }
-        })
-
-        // Also clean up expired player power-ups
-        const newPlayers = { ...prev.players }
-        Object.keys(newPlayers).forEach(playerId => {
-          const player = newPlayers[playerId]
-          const activePowerUps = player.activePowerUps.filter(pu => pu.endTime > now)
-          if (activePowerUps.length !== player.activePowerUps.length) {
-            newPlayers[playerId] = {
-              ...player,
-              activePowerUps
-            }
-            changed = true
-          }
-        })
-
-        return changed ? {
-          ...prev,
-          powerUps: newPowerUps,
-          players: newPlayers
-        } : prev
-      })
-    }, 1000)
-
-    return () => clearInterval(cleanupInterval)
-  }, [])
+  }, [currentPlayerId, isHost, dispatch, matchClock])
 
   // Player movement system
   useEffect(() => {
@@ -347,61 +458,31 @@ export function GameArena({ roomId, playerName, currentUser, gameMode, onLeaveGa
     }
   }, [])
 
-  // Update player position based on keys
+  // Feed the held movement direction (keys plus touch stick) into the simulation
   useEffect(() => {
-    if (!currentPlayer || !channelRef.current) return
-
-    const moveSpeed = 0.1
-    let moved = false
-    const newPosition = { ...currentPlayer.position }
-
-    if (keys['KeyW'] || keys['ArrowUp']) {
-      newPosition.z -= moveSpeed
-      moved = true
-    }
-    if (keys['KeyS'] || keys['ArrowDown']) {
-      newPosition.z += moveSpeed
-      moved = true
-    }
-    if (keys['KeyA'] || keys['ArrowLeft']) {
-      newPosition.x -= moveSpeed
-      moved = true
-    }
-    if (keys['KeyD'] || keys['ArrowRight']) {
-      newPosition.x += moveSpeed
-      moved = true
-    }
+    const direction = { ...touchDirection }
+    if (keys['KeyW'] || keys['ArrowUp']) direction.z -= 1
+    if (keys['KeyS'] || keys['ArrowDown']) direction.z += 1
+    if (keys['KeyA'] || keys['ArrowLeft']) direction.x -= 1
+    if (keys['KeyD'] || keys['ArrowRight']) direction.x += 1
 
-    // Boundary constraints
-    newPosition.x = Math.max(-8, Math.min(8, newPosition.x))
-    newPosition.z = Math.max(-8, Math.min(8, newPosition.z))
-
-    if (moved) {
-      // Update local state immediately
-      setGameState(prev => ({
-        ...prev,
-        players: {
-          ...prev.players,
-          [currentPlayerId]: {
-            ...prev.players[currentPlayerId],
-            position: newPosition
-          }
-        }
-      }))
-
-      // Send movement to other players
-      channelRef.current.publish('player_move', {
-        playerId: currentPlayerId,
-        position: newPosition,
-        rotation: currentPlayer.rotation
-      })
-    }
-  }, [keys, currentPlayer, currentPlayerId])
+    dispatch({ type: 'move_input', playerId: currentPlayerId, timestamp: matchClock(), direction })
+  }, [keys, touchDirection, currentPlayerId, dispatch, matchClock])
 
   // Initialize multiplayer connection
   useEffect(() => {
+    const join = {
+      playerId: currentUser.id,
+      name: playerName,
+      color: `#${Math.floor(Math.random()*16777215).toString(16).padStart(6, '0')}`
+    }
+    let joinRetry: ReturnType<typeof setInterval> | undefined
+
     const setupGame = async () => {
-      const channel = blink.realtime.channel(`game-room-${roomId}`)
+      // In development the room connection can be degraded from the network panel
+      const channel = import.meta.env.DEV
+        ? createSimulatedTransport(openChannel(`game-room-${roomId}`))
+        : openChannel(`game-room-${roomId}`)
       channelRef.current = channel
       
       await channel.subscribe({
@@ -409,262 +490,222 @@ export function GameArena({ roomId, playerName, currentUser, gameMode, onLeaveGa
         metadata: { 
           displayName: playerName,
           status: 'playing',
-          color: `#${Math.floor(Math.random()*16777215).toString(16)}`
+          color: join.color
         }
       })
 
       // Listen for game messages
       channel.onMessage((message: any) => {
-        const gameMsg = message.data as GameMessage
-        handleGameMessage(gameMsg)
+        const gameMsg = decodeMessage(message, matchClock())
+        // Our own actions are already applied locally
+        if (!gameMsg || gameMsg.playerId === currentUser.id) return
+        if (!isFromHost(gameMsg.type, gameMsg.playerId, hostRef.current)) return
+
+        // The host answers clock pings with its match clock; we only take answers to our own pings
+        if (gameMsg.type === 'clock_ping') {
+          if (hostRef.current !== currentUser.id) return
+          channel.publish('clock_pong', encodePayload('clock_pong', {
+            playerId: currentUser.id,
+            requesterId: gameMsg.playerId,
+            sentAt: gameMsg.data.sentAt,
+            hostTime: matchClock()
+          }))
+          return
+        }
+        // The host resends strokes a client missed
+        if (gameMsg.type === 'stroke_request') {
+          const simulation = getSimulation()
+          if (hostRef.current !== currentUser.id || !simulation) return
+          collectStrokes(simulation.game, gameMsg.data.strokeIds).forEach(strokes => {
+            channel.publish('stroke_sync', encodePayload('stroke_sync', { playerId: currentUser.id, strokes }))
+          })
+          return
+        }
+        if (gameMsg.type === 'clock_pong') {
+          receiveClockPong(gameMsg.data)
+          return
+        }
+
+        const input = messageToInput(gameMsg)
+        if (input?.type === 'game_state') {
+          lastSnapshotRef.current = input.game
+          dispatch({ ...input, localPlayerId: currentUser.id })
+        } else if (input) {
+          dispatch(input)
+        }
       })
 
       // Handle player presence
       channel.onPresence((users: any[]) => {
-        const players: Record<string, Player> = {}
-        users.forEach(user => {
-          players[user.userId] = {
-            id: user.userId,
-            name: user.metadata?.displayName || 'Anonymous',
-            position: { x: Math.random() * 10 - 5, y: 0, z: Math.random() * 10 - 5 },
-            rotation: { x: 0, y: 0, z: 0 },
-            health: 100,
-            maxHealth: 100,
-            color: user.metadata?.color || '#FF6B35',
-            isDrawing: false,
-            penStrokes: [],
-            activePowerUps: [],
-            score: 0,
-            kills: 0,
-            deaths: 0
-          }
-        })
-        
-        setGameState(prev => ({ ...prev, players }))
-      })
+        const now = matchClock()
+        const fighters = users.filter(user => user.metadata?.status !== 'spectating')
+        const previousHost = hostRef.current
+        const nextHost = electHost(fighters.map(user => ({ userId: user.userId, joinedAt: user.joinedAt || 0 })))
+        hostRef.current = nextHost
 
-      // Add current player
-      await channel.publish('player_join', {
-        playerId: currentUser.id,
-        playerData: {
-          name: playerName,
-          position: { x: 0, y: 0, z: 0 },
-          health: 100
+        dispatch({ type: 'presence', timestamp: now, playerIds: fighters.map(user => user.userId) })
+
+        // The first fighter in the room admits itself; everyone else is admitted by the host
+        if (nextHost === currentUser.id) {
+          dispatch({ type: 'player_join', timestamp: now, ...join })
         }
+
+        // The authority left and we were elected: pick the match up from its last snapshot
+        if (previousHost && nextHost !== previousHost && nextHost === currentUser.id) {
+          dispatch({ type: 'host_migration', timestamp: now, game: lastSnapshotRef.current, localPlayerId: currentUser.id })
+        }
+        setHostId(nextHost)
       })
+
+      // Ask the host to admit us; it answers with a game_state that includes our spawn
+      await channel.publish('player_join', encodePayload('player_join', join))
+      joinRetry = setInterval(() => {
+        if (getSimulation()?.game.players[currentUser.id]) {
+          clearInterval(joinRetry)
+          return
+        }
+        channel.publish('player_join', encodePayload('player_join', join))
+      }, JOIN_RETRY_MS)
     }
 
     setupGame()
 
     return () => {
-      channelRef.current?.unsubscribe()
+      clearInterval(joinRetry)
+      const channel = channelRef.current
+      channel?.publish('player_leave', encodePayload('player_leave', { playerId: currentUser.id }))
+        .finally(() => channel.unsubscribe())
     }
-  }, [roomId, playerName, currentUser.id, handleGameMessage])
-
-  const handleGameMessage = useCallback((message: GameMessage) => {
-    switch (message.type) {
-      case 'player_move':
-        setGameState(prev => ({
-          ...prev,
-          players: {
-            ...prev.players,
-            [message.playerId]: {
-              ...prev.players[message.playerId],
-              position: message.data.position,
-              rotation: message.data.rotation
-            }
-          }
-        }))
-        break
-      
-      case 'pen_stroke':
-        setGameState(prev => {
-          const newPlayers = { ...prev.players }
-          
-          // Add the stroke to the player
-          if (newPlayers[message.playerId]) {
-            newPlayers[message.playerId] = {
-              ...newPlayers[message.playerId],
-              penStrokes: [...(newPlayers[message.playerId]?.penStrokes || []), message.data.stroke]
-            }
-          }
-          
-          // Apply damage to hit players
-          if (message.data.hitPlayers && message.data.damage) {
-            message.data.hitPlayers.forEach((playerId: string) => {
-              if (newPlayers[playerId]) {
-                newPlayers[playerId] = {
-                  ...newPlayers[playerId],
-                  health: Math.max(0, newPlayers[playerId].health - message.data.damage)
-                }
-              }
-            })
-          }
-          
-          return { ...prev, players: newPlayers }
-        })
-        break
-        
-      case 'player_attack':
-        // Handle special attacks
-        setGameState(prev => {
-          const newPlayers = { ...prev.players }
-          if (newPlayers[message.data.targetId]) {
-            newPlayers[message.data.targetId] = {
-              ...newPlayers[message.data.targetId],
-              health: Math.max(0, newPlayers[message.data.targetId].health - message.data.damage)
-            }
-          }
-          return { ...prev, players: newPlayers }
-        })
-        break
-
-      case 'power_up_spawn':
-        setGameState(prev => ({
-          ...prev,
-          powerUps: {
-            ...prev.powerUps,
-            [message.data.powerUp.id]: message.data.powerUp
-          }
-        }))
-        break
-
-      case 'power_up_collect':
-        setGameState(prev => {
-          const newPlayers = { ...prev.players }
-          if (newPlayers[message.playerId]) {
-            newPlayers[message.playerId] = {
-              ...newPlayers[message.playerId],
-              activePowerUps: [...newPlayers[message.playerId].activePowerUps, message.data.effect]
-            }
-          }
-
-          const newPowerUps = { ...prev.powerUps }
-          delete newPowerUps[message.data.powerUpId]
-
-          return {
-            ...prev,
-            players: newPlayers,
-            powerUps: newPowerUps
-          }
-        })
-        break
-    }
-  }, [])
+  }, [roomId, playerName, currentUser.id, dispatch, getSimulation, matchClock, receiveClockPong])
 
-  // Enhanced mouse movement with 3D positioning
-  const handleMouseMove = useCallback((event: MouseEvent) => {
-    if (!isDrawing || !currentStroke || !currentPlayer) return
+  // The authority broadcasts its view of the match to everyone else
+  useEffect(() => {
+    if (!isHost) return
 
-    // Convert screen coordinates to 3D world coordinates relative to player
-    const rect = (event.target as HTMLElement).getBoundingClientRect()
-    const x = ((event.clientX - rect.left) / rect.width) * 2 - 1
-    const y = -((event.clientY - rect.top) / rect.height) * 2 + 1
+    let lastPublished: GameState | null = null
+    const interval = setInterval(() => {
+      const simulation = getSimulation()
+      if (!channelRef.current || !simulation || simulation.game === lastPublished) return
 
-    const point = {
-      x: currentPlayer.position.x + x * 3, // Scale drawing area around player
-      y: currentPlayer.position.y + y * 2 + 1, // Offset above player
-      z: currentPlayer.position.z + Math.sin(Date.now() * 0.01) * 0.5 // Add slight Z variation
-    }
+      lastPublished = simulation.game
+      channelRef.current.publish('game_state', encodePayload('game_state', {
+        playerId: currentPlayerId,
+        state: toSnapshot(simulation.game),
+        time: simulation.time
+      }))
+    }, SNAPSHOT_INTERVAL_MS)
 
-    setCurrentStroke(prev => prev ? {
-      ...prev,
-      points: [...prev.points, point]
-    } : null)
-  }, [isDrawing, currentStroke, currentPlayer])
+    return () => clearInterval(interval)
+  }, [isHost, currentPlayerId, getSimulation])
 
-  // Collision detection function
-  const checkStrokeCollisions = useCallback((stroke: PenStroke) => {
-    const strokePoints = stroke.points
-    if (strokePoints.length < 2) return []
+  // Flush our latest batched move at a fixed send rate rather than once per tick
+  useEffect(() => {
+    const interval = setInterval(() => {
+      const move = pendingMoveRef.current
+      if (!move || !channelRef.current) return
 
-    const hitPlayers: string[] = []
-    
-    Object.values(gameState.players).forEach(player => {
-      if (player.id === currentPlayerId || player.health <= 0) return
-
-      // Check if any stroke point is near the player
-      strokePoints.forEach(point => {
-        const distance = Math.sqrt(
-          Math.pow(point.x - player.position.x, 2) +
-          Math.pow(point.y - player.position.y, 2) +
-          Math.pow(point.z - player.position.z, 2)
-        )
-        
-        if (distance < 0.8) { // Hit radius
-          if (!hitPlayers.includes(player.id)) {
-            hitPlayers.push(player.id)
-          }
-        }
-      })
+      pendingMoveRef.current = null
+      channelRef.current.publish('player_move', encodePayload('player_move', move))
+    }, 1000 / MOVE_SEND_RATE)
+
+    return () => clearInterval(interval)
+  }, [])
+
+  // Project the pointer through the active camera onto the drawing surface
+  const handlePointerMove = useCallback((event: React.PointerEvent<HTMLDivElement>) => {
+    const view = viewRef.current
+    if (event.pointerId !== drawingPointerRef.current || !currentPlayer || !view) return
+
+    const rect = view.element.getBoundingClientRect()
+    const pointer = {
+      x: ((event.clientX - rect.left) / rect.width) * 2 - 1,
+      y: -((event.clientY - rect.top) / rect.height) * 2 + 1
+    }
+    const position = projectPointer(pointer, view.camera, drawingSurface, currentPlayer.position)
+    if (!position) return
+
+    // Only pens report meaningful pressure and tilt
+    const point: StrokePoint = event.pointerType === 'pen'
+      ? { ...position, pressure: event.pressure, tilt: Math.min(90, Math.hypot(event.tiltX, event.tiltY)) }
+      : position
+
+    // The pen runs dry when ink, the mode's maximum length or the points a message may carry are used up
+    setCurrentStroke(prev => {
+      if (!prev || prev.points.length >= MAX_STROKE_POINTS || !shouldSamplePoint(prev.points, point)) return prev
+      const next = { ...prev, points: [...prev.points, point] }
+      if (strokeInkCost(next, strokeRules) > currentPlayer.ink) return prev
+      if (strokeLength(next.points) > strokeRules.maxStrokeLength) return prev
+      return next
     })
+  }, [currentPlayer, drawingSurface, strokeRules])
 
-    return hitPlayers
-  }, [gameState.players, currentPlayerId])
+  // One pointer draws at a time; others (a second finger on the joystick) are left alone
+  const startDrawing = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (drawingPointerRef.current !== null || (event.pointerType === 'mouse' && event.button !== 0)) return
+    if (!currentPlayer || currentPlayer.health <= 0) return
+    if (Date.now() - lastStrokeSentRef.current < strokeRules.cooldownMs) return
+
+    drawingPointerRef.current = event.pointerId
+    ;(event.target as Element).setPointerCapture(event.pointerId)
 
-  const startDrawing = () => {
     const newStroke: PenStroke = {
-      id: `stroke-${Date.now()}`,
+      id: `${currentPlayerId}-${++strokeCounterRef.current}`,
       points: [],
       color: gameState.players[currentPlayerId]?.color || '#FF6B35',
-      thickness: 0.05,
-      timestamp: Date.now()
+      thickness: STROKE_BEHAVIORS[strokeBehavior].thickness,
+      timestamp: matchClock(),
+      behavior: strokeBehavior
     }
     
     setCurrentStroke(newStroke)
     setIsDrawing(true)
   }
 
-  const stopDrawing = useCallback(async () => {
-    if (!currentStroke || !channelRef.current) return
+  const stopDrawing = useCallback(async (event: React.PointerEvent<HTMLDivElement>) => {
+    if (event.pointerId !== drawingPointerRef.current) return
+    drawingPointerRef.current = null
 
     setIsDrawing(false)
-    
-    // Check for collisions and calculate damage
-    const hitPlayers = checkStrokeCollisions(currentStroke)
-    const damage = Math.min(currentStroke.points.length * 2, 25) // Damage based on stroke length
-    
-    // Send stroke to other players
-    await channelRef.current.publish('pen_stroke', {
-      playerId: currentPlayerId,
-      stroke: currentStroke,
-      hitPlayers,
-      damage
-    })
+    if (!currentStroke || !channelRef.current) return
 
-    // Apply damage locally for immediate feedback
-    if (hitPlayers.length > 0) {
-      setGameState(prev => {
-        const newPlayers = { ...prev.players }
-        hitPlayers.forEach(playerId => {
-          if (newPlayers[playerId]) {
-            newPlayers[playerId] = {
-              ...newPlayers[playerId],
-              health: Math.max(0, newPlayers[playerId].health - damage)
-            }
-          }
-        })
-        return { ...prev, players: newPlayers }
-      })
+    // Everyone, ourselves included, hit-tests the simplified stroke, so results agree
+    const stroke = simplifyStroke(currentStroke, strokeRules.simplifyTolerance)
+
+    // Too short to count as an attack; nothing is spent
+    if (strokeLength(stroke.points) < strokeRules.minStrokeLength) {
+      setCurrentStroke(null)
+      return
     }
+    lastStrokeSentRef.current = Date.now()
 
+    // Show the stroke right away; hits are resolved by the authority against
+    // opponents where we drew them, INTERPOLATION_DELAY_MS behind its clock
+    const now = matchClock()
+    const viewTime = now - INTERPOLATION_DELAY_MS
+    dispatch({ type: 'pen_stroke', playerId: currentPlayerId, timestamp: now, stroke, viewTime })
     setCurrentStroke(null)
-  }, [currentStroke, currentPlayerId, checkStrokeCollisions])
-
-  useEffect(() => {
-    if (isDrawing) {
-      window.addEventListener('mousemove', handleMouseMove)
-      window.addEventListener('mouseup', stopDrawing)
-    }
+    
+    // Send stroke to other players
+    const channel = channelRef.current
+    await channel.publish('pen_stroke', encodePayload('pen_stroke', {
+      playerId: currentPlayerId,
+      stroke,
+      viewTime
+    }))
 
-    return () => {
-      window.removeEventListener('mousemove', handleMouseMove)
-      window.removeEventListener('mouseup', stopDrawing)
-    }
-  }, [isDrawing, handleMouseMove, stopDrawing])
+    // Recognised attack shapes also trigger a special attack; the authority checks the gesture itself
+    const match = stroke.behavior === 'attack' ? recognizeGesture(stroke.points) : null
+    if (!match) return
 
-  const currentPlayer = gameState.players[currentPlayerId]
-  const otherPlayers = Object.values(gameState.players).filter(p => p.id !== currentPlayerId)
+    const attack = GESTURE_ATTACKS[match.gesture]
+    dispatch({ type: 'player_attack', playerId: currentPlayerId, timestamp: now, strokeId: stroke.id, attack, viewTime })
+    await channel.publish('player_attack', encodePayload('player_attack', {
+      playerId: currentPlayerId,
+      strokeId: stroke.id,
+      attack,
+      viewTime
+    }))
+  }, [currentStroke, currentPlayerId, dispatch, strokeRules, matchClock])
 
   return (
     <div className="h-screen bg-slate-900 flex">
@@ -672,8 +713,11 @@ export function GameArena({ roomId, playerName, currentUser, gameMode, onLeaveGa
       <div className="flex-1 relative">
         <Canvas
           camera={{ position: [0, 5, 10], fov: 75 }}
-          onMouseDown={startDrawing}
-          style={{ background: 'linear-gradient(to bottom, #1e293b, #0f172a)' }}
+          onPointerDown={startDrawing}
+          onPointerMove={handlePointerMove}
+          onPointerUp={stopDrawing}
+          onPointerCancel={stopDrawing}
+          style={{ background: 'linear-gradient(to bottom, #1e293b, #0f172a)', touchAction: 'none' }}
         >
           {/* Enhanced Lighting */}
           <ambientLight intensity={0.3} />
@@ -726,28 +770,29 @@ export function GameArena({ roomId, playerName, currentUser, gameMode, onLeaveGa
               key={player.id}
               player={player}
               isCurrentPlayer={player.id === currentPlayerId}
+              interpolation={player.id === currentPlayerId ? undefined : interpolation}
+              clock={matchClock}
             />
           ))}
 
-          {/* Render Pen Strokes */}
+          {/* Render Pen Strokes: recent strokes and special attacks have attacking effect, older ones are batched */}
           {Object.values(gameState.players).map(player =>
-            player.penStrokes.map((stroke, index) => {
-              // Recent strokes (last 3) have attacking effect
-              const isRecentStroke = index >= player.penStrokes.length - 3
-              return (
+            player.penStrokes.map((stroke, index) => 
+              isSettledStroke(stroke, index, player.penStrokes.length) ? null : (
                 <PenStrokeRenderer 
                   key={stroke.id} 
                   stroke={stroke} 
-                  isAttacking={isRecentStroke}
+                  isAttacking
+                  interpolation={player.id === currentPlayerId ? undefined : interpolation}
+                  clock={matchClock}
                 />
               )
-            })
+            )
           )}
+          <BatchedStrokes strokes={settledStrokes} clock={matchClock} />
 
           {/* Current Drawing Stroke */}
-          {currentStroke && currentStroke.points.length > 1 && (
-            <PenStrokeRenderer stroke={currentStroke} isAttacking={true} />
-          )}
+          {currentStroke && <LiveStrokeRenderer key={currentStroke.id} stroke={currentStroke} />}
 
           {/* Render Power-ups */}
           {Object.values(gameState.powerUps).map(powerUp => (
@@ -760,8 +805,9 @@ export function GameArena({ roomId, playerName, currentUser, gameMode, onLeaveGa
 
           {/* POV Camera */}
           {povMode && currentPlayer && <POVCamera player={currentPlayer} />}
+          <DrawingViewTracker viewRef={viewRef} />
           
-          {!povMode && <OrbitControls enablePan={true} enableZoom={true} enableRotate={true} />}
+          {!povMode && <OrbitControls enabled={!isDrawing} enablePan={true} enableZoom={true} enableRotate={true} />}
         </Canvas>
 
         {/* Game Controls Overlay */}
@@ -774,6 +820,28 @@ export function GameArena({ roomId, playerName, currentUser, gameMode, onLeaveGa
           >
             POV Mode
           </Button>
+          <Button
+            onClick={() => {
+              const index = DRAWING_SURFACES.findIndex(surface => surface.id === drawingSurface)
+              setDrawingSurface(DRAWING_SURFACES[(index + 1) % DRAWING_SURFACES.length].id)
+            }}
+            variant="outline"
+            size="sm"
+            className="bg-slate-800/80 border-slate-600 text-white"
+          >
+            Draw on: {DRAWING_SURFACES.find(surface => surface.id === drawingSurface)?.label}
+          </Button>
+          <Button
+            onClick={() => {
+              const index = STROKE_BEHAVIOR_OPTIONS.findIndex(option => option.id === strokeBehavior)
+              setStrokeBehavior(STROKE_BEHAVIOR_OPTIONS[(index + 1) % STROKE_BEHAVIOR_OPTIONS.length].id)
+            }}
+            variant="outline"
+            size="sm"
+            className="bg-slate-800/80 border-slate-600 text-white"
+          >
+            Stroke: {STROKE_BEHAVIOR_OPTIONS.find(option => option.id === strokeBehavior)?.label}
+          </Button>
           <Button
             onClick={onLeaveGame}
             variant="outline"
@@ -782,8 +850,66 @@ export function GameArena({ roomId, playerName, currentUser, gameMode, onLeaveGa
           >
             Leave Game
           </Button>
+          {import.meta.env.DEV && (
+            <Button
+              onClick={() => setShowNetworkPanel(!showNetworkPanel)}
+              variant={showNetworkPanel ? "default" : "outline"}
+              size="sm"
+              className="bg-slate-800/80 border-slate-600 text-white"
+            >
+              Network
+            </Button>
+          )}
         </div>
 
+        {showNetworkPanel && (
+          <div className="absolute top-4 right-4">
+            <NetworkConditionsOverlay onClose={() => setShowNetworkPanel(false)} />
+          </div>
+        )}
+
+        {/* Match lifecycle */}
+        {gameState.gameStatus === 'waiting' && (
+          <div className="absolute top-20 left-1/2 -translate-x-1/2 bg-slate-800/90 px-4 py-2 rounded-lg text-slate-300 text-sm pointer-events-none">
+            Waiting for fighters ({Object.keys(gameState.players).length}/{matchRules.minPlayers})
+          </div>
+        )}
+        {countdownSeconds !== null && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none">
+            <p className="text-slate-300 text-lg mb-2">Match starts in</p>
+            <p className="text-white text-8xl font-bold">{countdownSeconds}</p>
+          </div>
+        )}
+        {gameState.gameStatus === 'finished' && (
+          <div className="absolute inset-0 flex items-center justify-center bg-slate-950/60 p-4 z-10">
+            <MatchResults game={gameState} currentPlayerId={currentPlayerId} onRematch={handleRematch} onLeave={onLeaveGame} />
+          </div>
+        )}
+
+        {/* Fallen: who did it and when we are back */}
+        {currentPlayer && currentPlayer.health <= 0 && gameState.gameStatus === 'playing' && (
+          <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+            <div className="bg-slate-900/80 px-8 py-6 rounded-lg text-center">
+              <Skull className="w-10 h-10 text-red-500 mx-auto mb-2" />
+              <p className="text-white text-xl font-bold">
+                Eliminated{currentPlayer.lastKilledBy && gameState.players[currentPlayer.lastKilledBy] ? ` by ${gameState.players[currentPlayer.lastKilledBy].name}` : ''}
+              </p>
+              <p className="text-slate-300 text-sm mt-1">
+                {currentPlayer.respawnAt !== undefined
+                  ? `Respawning in ${Math.max(0, Math.ceil((currentPlayer.respawnAt - clock) / 1000))}s`
+                  : 'Out until the match ends'}
+              </p>
+            </div>
+          </div>
+        )}
+
+        {/* Touch movement stick; draw with another finger */}
+        {isTouchDevice && (
+          <div className="absolute bottom-4 right-4">
+            <TouchJoystick onChange={setTouchDirection} />
+          </div>
+        )}
+
         {/* Enhanced Controls Instructions */}
         <div className="absolute bottom-4 left-4 bg-slate-800/90 p-4 rounded-lg text-white text-sm max-w-xs">
           <h3 className="font-bold mb-2 flex items-center gap-2">
@@ -792,10 +918,14 @@ export function GameArena({ roomId, playerName, currentUser, gameMode, onLeaveGa
           </h3>
           <div className="space-y-1">
             <p>• <strong>WASD/Arrows:</strong> Move around</p>
-            <p>• <strong>Click & Drag:</strong> Draw attack strokes</p>
+            <p>• <strong>Click & Drag:</strong> Draw attack strokes (pen pressure thickens them)</p>
             <p>• <strong>POV Mode:</strong> First-person camera</p>
             <p>• <strong>Damage:</strong> Based on stroke length</p>
-            <p>• <strong>Hit Range:</strong> 0.8 units around players</p>
+            <p>• <strong>Draw on:</strong> Switch the surface strokes land on</p>
+            <p>• <strong>Hits:</strong> Any part of a stroke touching a fighter</p>
+            <p>• <strong>Specials:</strong> Circle shields, line shoots, zigzag strikes lightning, spiral pulls, triangle pushes</p>
+            <p>• <strong>Walls:</strong> Block movement and enemy strokes until they decay</p>
+            <p>• <strong>Traps:</strong> Hurt each enemy who crosses them</p>
           </div>
           
           {currentPlayer && (
@@ -817,8 +947,8 @@ export function GameArena({ roomId, playerName, currentUser, gameMode, onLeaveGa
         <div className="p-4 border-b border-slate-700">
           <h2 className="text-xl font-bold text-white mb-2">Room: {roomId}</h2>
           <div className="flex items-center justify-between mb-2">
-            <Badge variant="secondary" className="bg-green-600 text-white">
-              {gameState.gameStatus === 'playing' ? 'Battle Active' : 'Waiting'}
+            <Badge variant="secondary" className={`${MATCH_STATUS[gameState.gameStatus].className} text-white`}>
+              {MATCH_STATUS[gameState.gameStatus].label}
             </Badge>
             <Badge variant="outline" className="border-slate-600 text-slate-300">
               {gameState.gameMode.name}
@@ -826,15 +956,20 @@ export function GameArena({ roomId, playerName, currentUser, gameMode, onLeaveGa
           </div>
           
           {/* Game Timer */}
-          {gameState.gameMode.duration > 0 && gameState.gameStatus === 'playing' && (
+          {secondsLeft !== null && (
             <div className="flex items-center gap-2 text-sm">
               <Clock className="w-4 h-4 text-orange-500" />
               <span className="text-slate-300">
-                Time: {Math.max(0, Math.floor((gameState.gameMode.duration * 60 - gameTimer) / 60))}:
-                {String(Math.max(0, (gameState.gameMode.duration * 60 - gameTimer) % 60)).padStart(2, '0')}
+                Time: {Math.floor(secondsLeft / 60)}:{String(secondsLeft % 60).padStart(2, '0')}
               </span>
             </div>
           )}
+          {gameState.gameStatus === 'playing' && matchRules.winCondition === 'kill_limit' && (
+            <div className="flex items-center gap-2 text-sm">
+              <Sword className="w-4 h-4 text-red-500" />
+              <span className="text-slate-300">First {teamStandings.length > 0 ? 'team ' : ''}to {matchRules.killLimit} kills</span>
+            </div>
+          )}
           
           {/* Power-ups Count */}
           <div className="flex items-center gap-2 text-sm mt-1">
@@ -851,25 +986,27 @@ export function GameArena({ roomId, playerName, currentUser, gameMode, onLeaveGa
             <Users className="w-5 h-5" />
             Fighters ({Object.keys(gameState.players).length})
           </h3>
-          <div className="space-y-2">
-            {Object.values(gameState.players).map(player => (
-              <div key={player.id} className="flex items-center justify-between p-2 bg-slate-700 rounded">
-                <div className="flex items-center gap-2">
-                  <div 
-                    className="w-3 h-3 rounded-full"
-                    style={{ backgroundColor: player.color }}
-                  />
-                  <span className="text-white text-sm font-medium">
-                    {player.name} {player.id === currentPlayerId && '(You)'}
-                  </span>
-                </div>
-                <div className="flex items-center gap-2">
-                  <Heart className="w-4 h-4 text-red-500" />
-                  <Progress value={player.health} className="w-12 h-2" />
+          {teamStandings.length > 0 ? (
+            <div className="space-y-3">
+              {teamStandings.map(standing => (
+                <div key={standing.team.id}>
+                  <div className="flex items-center justify-between text-sm mb-1">
+                    <span className="font-semibold" style={{ color: standing.team.color }}>{standing.team.name}</span>
+                    <span className="text-xs text-slate-400">
+                      {standing.kills} kills · {Math.round(standing.score)}
+                    </span>
+                  </div>
+                  <div className="space-y-2">
+                    {Object.values(gameState.players).filter(player => player.team === standing.team.id).map(renderFighter)}
+                  </div>
                 </div>
-              </div>
-            ))}
-          </div>
+              ))}
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {Object.values(gameState.players).map(renderFighter)}
+            </div>
+          )}
         </div>
 
         {/* Enhanced Battle Stats */}
@@ -891,7 +1028,32 @@ export function GameArena({ roomId, playerName, currentUser, gameMode, onLeaveGa
                 <Progress value={currentPlayer.health} className="h-2" />
               </div>
               
+              {/* Ink, minus what the stroke being drawn will cost */}
+              <div>
+                <div className="flex justify-between text-sm text-slate-300 mb-1">
+                  <span>Ink:</span>
+                  <span className="text-cyan-400">
+                    {Math.floor(Math.max(0, currentPlayer.ink - inkInUse))}/{strokeRules.maxInk}
+                  </span>
+                </div>
+                <Progress value={(Math.max(0, currentPlayer.ink - inkInUse) / strokeRules.maxInk) * 100} className="h-2" />
+              </div>
+              
               {/* Combat Stats */}
+              <div className="grid grid-cols-3 gap-2 text-xs text-slate-300">
+                <div className="bg-slate-700/50 p-2 rounded">
+                  <div className="text-green-400 font-medium">{currentPlayer.kills}</div>
+                  <div>Kills</div>
+                </div>
+                <div className="bg-slate-700/50 p-2 rounded">
+                  <div className="text-red-400 font-medium">{currentPlayer.deaths}</div>
+                  <div>Deaths</div>
+                </div>
+                <div className="bg-slate-700/50 p-2 rounded">
+                  <div className="text-yellow-400 font-medium">{currentPlayer.score}</div>
+                  <div>Score</div>
+                </div>
+              </div>
               <div className="grid grid-cols-2 gap-2 text-xs text-slate-300">
                 <div className="bg-slate-700/50 p-2 rounded">
                   <div className="text-orange-400 font-medium">{currentPlayer.penStrokes.length}</div>
@@ -922,7 +1084,7 @@ export function GameArena({ roomId, playerName, currentUser, gameMode, onLeaveGa
                   <span className="text-sm text-slate-300 block mb-2">Active Power-ups:</span>
                   <div className="space-y-1">
                     {currentPlayer.activePowerUps.map((powerUp, index) => {
-                      const timeLeft = Math.max(0, powerUp.endTime - Date.now())
+                      const timeLeft = Math.max(0, powerUp.endTime - clock)
                       return (
                         <div key={index} className="flex items-center justify-between text-xs">
                           <span className="text-slate-400 capitalize">{powerUp.type}</span>
@@ -4,7 +4,9 @@ import { Input } from './ui/input'
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
 import { Badge } from './ui/badge'
 import { Users, Gamepad2, Wifi, Volume2, VolumeX, Eye, Trophy, Target } from 'lucide-react'
-import { blink } from '../blink/client'
+import { openChannel } from '../realtime/channel'
+import { DEFAULT_STROKE_RULES } from '../game/modes'
+import { createMatchStats } from '../game/simulation'
 import type { Player } from '../types/game'
 
 interface GameLobbyProps {
@@ -26,7 +28,7 @@ export function GameLobby({ onJoinGame, currentUser, soundEnabled, onToggleSound
   useEffect(() => {
     // Subscribe to lobby presence
     const setupLobby = async () => {
-      const channel = blink.realtime.channel('game-lobby')
+      const channel = openChannel('game-lobby')
       await channel.subscribe({
         userId: currentUser.id,
         metadata: { 
@@ -49,7 +51,9 @@ export function GameLobby({ onJoinGame, currentUser, soundEnabled, onToggleSound
           activePowerUps: [],
           score: 0,
           kills: 0,
-          deaths: 0
+          deaths: 0,
+          ink: DEFAULT_STROKE_RULES.maxInk,
+          stats: createMatchStats()
         }))
         setOnlinePlayers(players)
       })
@@ -2,7 +2,9 @@ import { useState } from 'react'
 import { Button } from './ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
 import { Badge } from './ui/badge'
+import { Switch } from './ui/switch'
 import { Sword, Target, Clock, Users, Zap, Crown } from 'lucide-react'
+import { getTeamRules } from '../game/modes'
 
 export interface GameMode {
   id: string
@@ -13,13 +15,14 @@ export interface GameMode {
   duration: number // in minutes, 0 = unlimited
   features: string[]
   color: string
+  friendlyFire?: boolean // team modes only; unset keeps the mode's default
 }
 
 const GAME_MODES: GameMode[] = [
   {
     id: 'deathmatch',
     name: 'Deathmatch',
-    description: 'Classic free-for-all combat. Last fighter standing wins!',
+    description: 'Classic free-for-all combat. First to 10 kills wins!',
     icon: <Sword className="w-6 h-6" />,
     maxPlayers: 8,
     duration: 0,
@@ -49,7 +52,7 @@ const GAME_MODES: GameMode[] = [
   {
     id: 'team_battle',
     name: 'Team Battle',
-    description: 'Work together in teams to defeat the opposing side!',
+    description: 'Work together in teams to defeat the opposing side. First team to 25 kills wins!',
     icon: <Users className="w-6 h-6" />,
     maxPlayers: 6,
     duration: 10,
@@ -203,6 +206,20 @@ export function GameModeSelector({ onSelectMode, onBack }: GameModeSelectorProps
                   <div className="text-xs text-slate-400">Theme Color</div>
                 </div>
               </div>
+
+              {/* Team rules */}
+              {getTeamRules(selectedMode.id).teams.length > 0 && (
+                <div className="flex items-center justify-between mt-4 bg-slate-700/50 p-3 rounded-lg">
+                  <div>
+                    <div className="text-white text-sm font-medium">Friendly fire</div>
+                    <div className="text-xs text-slate-400">Teammates' strokes and attacks can hurt each other</div>
+                  </div>
+                  <Switch
+                    checked={selectedMode.friendlyFire ?? getTeamRules(selectedMode.id).friendlyFire}
+                    onCheckedChange={friendlyFire => setSelectedMode({ ...selectedMode, friendlyFire })}
+                  />
+                </div>
+              )}
             </CardContent>
           </Card>
         )}
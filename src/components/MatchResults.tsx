@@ -0,0 +1,113 @@
+import { Button } from './ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
+import { Badge } from './ui/badge'
+import { Trophy, Crown, RotateCcw, LogOut } from 'lucide-react'
+import { getMatchRules } from '../game/modes'
+import { rankTeams } from '../game/simulation'
+import type { GameState, MatchStats } from '../types/game'
+
+interface MatchResultsProps {
+  game: GameState
+  currentPlayerId: string
+  onRematch: () => void
+  onLeave: () => void
+}
+
+function accuracy(stats: MatchStats): string {
+  return stats.attacks > 0 ? `${Math.round((stats.hits / stats.attacks) * 100)}%` : '–'
+}
+
+// End-of-match screen: the authority's final ranking with each fighter's breakdown
+export function MatchResults({ game, currentPlayerId, onRematch, onLeave }: MatchResultsProps) {
+  const { winCondition } = getMatchRules(game.gameMode.id)
+  const winner = game.leaderboard.find(entry => entry.playerId === game.winner)
+  // Fighters who left after the match still count towards their team's result
+  const teams = rankTeams(game.gameMode.id, game.leaderboard)
+  const winningTeam = teams.find(standing => standing.team.id === game.winningTeam)
+  const teamColor = (teamId?: string) => teams.find(standing => standing.team.id === teamId)?.team.color
+
+  return (
+    <Card className="bg-slate-900/95 border-slate-700 w-full max-w-4xl">
+      <CardHeader className="text-center">
+        <Trophy className="w-12 h-12 text-yellow-400 mx-auto mb-2" />
+        <CardTitle className="text-white text-3xl">
+          {winningTeam ? `${winningTeam.team.name} wins!` : winner ? `${winner.playerName} wins!` : 'Match over'}
+        </CardTitle>
+        <p className="text-slate-400 text-sm">
+          {game.gameMode.name} · ranked by {winCondition === 'kill_limit' ? 'kills' : 'score'}
+        </p>
+      </CardHeader>
+      <CardContent>
+        {teams.length > 0 && (
+          <div className="grid grid-cols-2 gap-4 mb-6">
+            {teams.map((standing, index) => (
+              <div key={standing.team.id} className="bg-slate-800/80 p-3 rounded-lg text-center border-t-4" style={{ borderColor: standing.team.color }}>
+                <div className="font-bold flex items-center justify-center gap-1" style={{ color: standing.team.color }}>
+                  {index === 0 && <Crown className="w-4 h-4 text-yellow-400" />}
+                  {standing.team.name}
+                </div>
+                <div className="text-xs text-slate-400 mt-1">
+                  {standing.kills} kills · {standing.deaths} deaths · {Math.round(standing.score)} score
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-slate-300">
+            <thead>
+              <tr className="text-xs text-slate-400 border-b border-slate-700">
+                <th className="py-2 text-left">#</th>
+                <th className="py-2 text-left">Fighter</th>
+                <th className="py-2 text-right">Score</th>
+                <th className="py-2 text-right">K</th>
+                <th className="py-2 text-right">D</th>
+                <th className="py-2 text-right">Dealt</th>
+                <th className="py-2 text-right">Taken</th>
+                <th className="py-2 text-right">Strokes</th>
+                <th className="py-2 text-right">Accuracy</th>
+                <th className="py-2 text-right">Power-ups</th>
+              </tr>
+            </thead>
+            <tbody>
+              {game.leaderboard.map((entry, index) => (
+                <tr
+                  key={entry.playerId}
+                  className={`border-b border-slate-800 ${entry.playerId === currentPlayerId ? 'bg-orange-900/20' : ''}`}
+                >
+                  <td className="py-2">
+                    {index === 0 ? <Crown className="w-4 h-4 text-yellow-400" /> : index + 1}
+                  </td>
+                  <td className="py-2 text-white" style={{ color: teamColor(entry.team) }}>
+                    {entry.playerName}
+                    {entry.playerId === currentPlayerId && <Badge className="ml-2 bg-orange-600 text-xs">You</Badge>}
+                  </td>
+                  <td className="py-2 text-right font-bold text-white">{Math.round(entry.score)}</td>
+                  <td className="py-2 text-right text-green-400">{entry.kills}</td>
+                  <td className="py-2 text-right text-red-400">{entry.deaths}</td>
+                  <td className="py-2 text-right">{Math.round(entry.stats.damageDealt)}</td>
+                  <td className="py-2 text-right">{Math.round(entry.stats.damageTaken)}</td>
+                  <td className="py-2 text-right">{entry.stats.strokesDrawn}</td>
+                  <td className="py-2 text-right">{accuracy(entry.stats)}</td>
+                  <td className="py-2 text-right">{entry.stats.powerUpsCollected}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex justify-center gap-3 mt-6">
+          <Button onClick={onRematch} className="bg-orange-600 hover:bg-orange-700">
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Rematch
+          </Button>
+          <Button onClick={onLeave} variant="outline" className="border-slate-600 text-slate-300 hover:bg-slate-700">
+            <LogOut className="w-4 h-4 mr-2" />
+            Back to Lobby
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
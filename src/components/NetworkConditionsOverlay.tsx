@@ -0,0 +1,78 @@
+import { useEffect, useState, useSyncExternalStore } from 'react'
+import { Button } from './ui/button'
+import { Slider } from './ui/slider'
+import { Wifi } from 'lucide-react'
+import {
+  getNetworkConditions,
+  setNetworkConditions,
+  subscribeNetworkConditions,
+  PERFECT_NETWORK
+} from '../realtime/network-simulator'
+import type { NetworkConditions } from '../realtime/network-simulator'
+import { getRejectionCounts } from '../game/protocol'
+
+const CONTROLS: { key: keyof NetworkConditions; label: string; max: number; step: number; percent?: boolean }[] = [
+  { key: 'latencyMs', label: 'Latency', max: 1000, step: 10 },
+  { key: 'jitterMs', label: 'Jitter', max: 300, step: 5 },
+  { key: 'packetLoss', label: 'Packet loss', max: 0.5, step: 0.01, percent: true },
+  { key: 'reorderChance', label: 'Reordering', max: 0.5, step: 0.01, percent: true },
+  { key: 'duplicateChance', label: 'Duplication', max: 0.5, step: 0.01, percent: true }
+]
+
+// Dev-only panel for degrading the room connection while playing
+export function NetworkConditionsOverlay({ onClose }: { onClose: () => void }) {
+  const conditions = useSyncExternalStore(subscribeNetworkConditions, getNetworkConditions)
+  const [, setRefresh] = useState(0)
+
+  // Rejection counters live outside React; poll them while the panel is open
+  useEffect(() => {
+    const interval = setInterval(() => setRefresh(n => n + 1), 1000)
+    return () => clearInterval(interval)
+  }, [])
+
+  const rejections = getRejectionCounts()
+  const rejectedTotal = Object.values(rejections).reduce((sum, count) => sum + count, 0)
+
+  return (
+    <div className="bg-slate-800/95 p-4 rounded-lg text-white text-sm w-72 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="font-bold flex items-center gap-2">
+          <Wifi className="w-4 h-4" />
+          Network Conditions
+        </h3>
+        <button onClick={onClose} className="text-slate-400 hover:text-white">✕</button>
+      </div>
+
+      {CONTROLS.map(control => (
+        <div key={control.key} className="space-y-1">
+          <div className="flex justify-between text-xs text-slate-300">
+            <span>{control.label}</span>
+            <span>
+              {control.percent
+                ? `${Math.round(conditions[control.key] * 100)}%`
+                : `${conditions[control.key]}ms`}
+            </span>
+          </div>
+          <Slider
+            value={[conditions[control.key]]}
+            max={control.max}
+            step={control.step}
+            onValueChange={([value]) => setNetworkConditions({ [control.key]: value })}
+          />
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between pt-2 border-t border-slate-600">
+        <span className="text-xs text-slate-400">Rejected messages: {rejectedTotal}</span>
+        <Button
+          size="sm"
+          variant="outline"
+          className="border-slate-600 text-slate-300"
+          onClick={() => setNetworkConditions(PERFECT_NETWORK)}
+        >
+          Reset
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -1,13 +1,27 @@
-import { useRef, useEffect, useState } from 'react'
-import { Canvas, useFrame } from '@react-three/fiber'
+import { useRef, useEffect, useMemo, useState, useCallback } from 'react'
+import { Canvas, useFrame, useThree } from '@react-three/fiber'
 import { OrbitControls, Text, Box, Sphere } from '@react-three/drei'
 import * as THREE from 'three'
 import { Button } from './ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
 import { Badge } from './ui/badge'
+import { BatchedStrokes } from './BatchedStrokes'
 import { Eye, Users, Clock, Trophy, ArrowLeft } from 'lucide-react'
-import { blink } from '../blink/client'
-import type { Player, GameState, PenStroke } from '../types/game'
+import { openChannel } from '../realtime/channel'
+import { useGameSimulation } from '../hooks/use-game-simulation'
+import { messageToInput } from '../game/simulation'
+import { decodeMessage, encodePayload } from '../game/protocol'
+import { createStrokeRequests, takeStrokeRequests } from '../game/stroke-sync'
+import { electHost, isFromHost } from '../game/authority'
+import { INTERPOLATION_DELAY_MS, sampleAt, strokeReveal } from '../game/interpolation'
+import type { InterpolationBuffer } from '../game/interpolation'
+import { useInterpolation } from '../hooks/use-interpolation'
+import { useMatchClock } from '../hooks/use-match-clock'
+import { strokeFade } from '../lib/stroke-geometry'
+import { useStrokeGeometry } from '../hooks/use-stroke-geometry'
+import { isSettledStroke } from '../lib/stroke-batch'
+import type { RealtimeTransport } from '../realtime/transport'
+import type { Player, PenStroke, SimulationEvent } from '../types/game'
 
 interface SpectatorModeProps {
   roomId: string
@@ -51,16 +65,21 @@ function SpectatorCamera({ players }: { players: Record<string, Player> }) {
 }
 
 // Enhanced Player Renderer for Spectators
-function SpectatorPlayerRenderer({ player }: { player: Player }) {
+function SpectatorPlayerRenderer({ player, interpolation, clock }: { player: Player; interpolation: InterpolationBuffer; clock: () => number }) {
+  const groupRef = useRef<THREE.Group>(null)
   const meshRef = useRef<THREE.Mesh>(null)
   
   useFrame((state) => {
+    const pose = sampleAt(interpolation, player.id, clock() - INTERPOLATION_DELAY_MS)
+    const position = pose ? pose.position : player.position
+    if (groupRef.current) {
+      groupRef.current.position.set(position.x, position.y, position.z)
+    }
+
     if (meshRef.current) {
-      meshRef.current.position.set(player.position.x, player.position.y, player.position.z)
-      
       // Add floating animation
       const floatOffset = Math.sin(state.clock.elapsedTime * 2 + player.id.length) * 0.1
-      meshRef.current.position.y = player.position.y + floatOffset
+      meshRef.current.position.y = floatOffset
       
       // Pulse effect when drawing
       if (player.isDrawing) {
@@ -73,9 +92,9 @@ function SpectatorPlayerRenderer({ player }: { player: Player }) {
   })
 
   return (
-    <group>
+    <group ref={groupRef}>
       {/* Player Sphere */}
-      <Sphere ref={meshRef} args={[0.5]} position={[player.position.x, player.position.y, player.position.z]}>
+      <Sphere ref={meshRef} args={[0.5]}>
         <meshStandardMaterial 
           color={player.color} 
           emissive={player.isDrawing ? player.color : '#000000'}
@@ -87,7 +106,7 @@ function SpectatorPlayerRenderer({ player }: { player: Player }) {
       
       {/* Player Name with Health */}
       <Text
-        position={[player.position.x, player.position.y + 1.2, player.position.z]}
+        position={[0, 1.2, 0]}
         fontSize={0.25}
         color={player.health > 0 ? "white" : "#666666"}
         anchorX="center"
@@ -99,14 +118,14 @@ function SpectatorPlayerRenderer({ player }: { player: Player }) {
       {/* Health Bar */}
       <Box 
         args={[1, 0.1, 0.02]} 
-        position={[player.position.x, player.position.y + 0.8, player.position.z]}
+        position={[0, 0.8, 0]}
       >
         <meshStandardMaterial color="#333333" transparent opacity={0.7} />
       </Box>
       
       <Box 
         args={[player.health / 100, 0.08, 0.03]} 
-        position={[player.position.x - (1 - player.health / 100) / 2, player.position.y + 0.8, player.position.z]}
+        position={[-(1 - player.health / 100) / 2, 0.8, 0]}
       >
         <meshStandardMaterial 
           color={player.health > 60 ? "#00ff00" : player.health > 30 ? "#ffff00" : "#ff0000"} 
@@ -116,7 +135,7 @@ function SpectatorPlayerRenderer({ player }: { player: Player }) {
       {/* Death indicator */}
       {player.health <= 0 && (
         <Text
-          position={[player.position.x, player.position.y + 0.5, player.position.z]}
+          position={[0, 0.5, 0]}
           fontSize={0.3}
           color="#ff4444"
           anchorX="center"
@@ -130,16 +149,26 @@ function SpectatorPlayerRenderer({ player }: { player: Player }) {
 }
 
 // Pen Stroke Renderer for Spectators
-function SpectatorStrokeRenderer({ stroke }: { stroke: PenStroke }) {
-  if (stroke.points.length < 2) return null
+function SpectatorStrokeRenderer({ stroke, interpolation, clock }: { stroke: PenStroke; interpolation: InterpolationBuffer; clock: () => number }) {
+  const meshRef = useRef<THREE.Mesh>(null)
+  const materialRef = useRef<THREE.MeshStandardMaterial>(null)
+  const geometry = useStrokeGeometry(stroke)
+
+  // Draw in along the stroke in step with the interpolated players, and fade out as it expires
+  useFrame(() => {
+    if (materialRef.current) materialRef.current.opacity = 0.8 * strokeFade(stroke, clock())
+    if (!meshRef.current || !geometry) return
+    const reveal = strokeReveal(interpolation, stroke.id, clock() - INTERPOLATION_DELAY_MS)
+    const count = geometry.index ? geometry.index.count : 0
+    geometry.setDrawRange(0, reveal >= 1 ? Infinity : Math.floor(count * reveal / 3) * 3)
+  })
 
-  const points = stroke.points.map(p => new THREE.Vector3(p.x, p.y, p.z))
-  const curve = new THREE.CatmullRomCurve3(points)
-  const geometry = new THREE.TubeGeometry(curve, points.length * 2, stroke.thickness, 8, false)
+  if (!geometry) return null
   
   return (
-    <mesh geometry={geometry}>
+    <mesh ref={meshRef} geometry={geometry}>
       <meshStandardMaterial 
+        ref={materialRef}
         color={stroke.color} 
         emissive={stroke.color}
         emissiveIntensity={0.3}
@@ -151,7 +180,27 @@ function SpectatorStrokeRenderer({ stroke }: { stroke: PenStroke }) {
 }
 
 export function SpectatorMode({ roomId, onBack }: SpectatorModeProps) {
-  const [gameState, setGameState] = useState<GameState>({
+  const channelRef = useRef<RealtimeTransport | null>(null)
+  const hostRef = useRef<string | null>(null)
+  const [spectatorId] = useState(() => `spectator-${Date.now()}`)
+  const [hostId, setHostId] = useState<string | null>(null)
+  const strokeRequestsRef = useRef(createStrokeRequests())
+
+  // Spectators watch on the host's clock too, so countdowns and stroke expiry match the fighters'
+  const { matchClock, receiveClockPong } = useMatchClock(channelRef, hostId, spectatorId)
+
+  // Spectators usually arrive mid-match, so they ask the host for the strokes already on the field
+  const handleSimulationEvents = useCallback((events: SimulationEvent[]) => {
+    events.forEach(event => {
+      if (event.type !== 'strokes_missing') return
+      const strokeIds = takeStrokeRequests(strokeRequestsRef.current, event.strokeIds, Date.now())
+      if (strokeIds.length > 0) {
+        channelRef.current?.publish('stroke_request', encodePayload('stroke_request', { playerId: spectatorId, strokeIds }))
+      }
+    })
+  }, [spectatorId])
+
+  const { gameState, dispatch } = useGameSimulation({
     players: {},
     gameStatus: 'waiting',
     gameMode: {
@@ -163,19 +212,21 @@ export function SpectatorMode({ roomId, onBack }: SpectatorModeProps) {
     powerUps: {},
     roomId,
     leaderboard: []
-  })
+  }, { onEvents: handleSimulationEvents, clock: matchClock })
+  const interpolation = useInterpolation(gameState, matchClock)
+  const settledStrokes = useMemo(() => Object.values(gameState.players).flatMap(player =>
+    player.penStrokes.filter((stroke, index) => isSettledStroke(stroke, index, player.penStrokes.length))
+  ), [gameState.players])
   const [selectedPlayer, setSelectedPlayer] = useState<string | null>(null)
   const [spectatorCount, setSpectatorCount] = useState(0)
-  
-  const channelRef = useRef<any>(null)
 
   useEffect(() => {
     const setupSpectator = async () => {
-      const channel = blink.realtime.channel(`game-room-${roomId}`)
+      const channel = openChannel(`game-room-${roomId}`)
       channelRef.current = channel
       
       await channel.subscribe({
-        userId: `spectator-${Date.now()}`,
+        userId: spectatorId,
         metadata: { 
           displayName: 'Spectator',
           status: 'spectating'
@@ -184,39 +235,25 @@ export function SpectatorMode({ roomId, onBack }: SpectatorModeProps) {
 
       // Listen for game messages
       channel.onMessage((message: any) => {
-        const gameMsg = message.data
-        handleGameMessage(gameMsg)
+        const gameMsg = decodeMessage(message, matchClock())
+        if (!gameMsg || !isFromHost(gameMsg.type, gameMsg.playerId, hostRef.current)) return
+        if (gameMsg.type === 'clock_pong') {
+          receiveClockPong(gameMsg.data)
+          return
+        }
+        const input = messageToInput(gameMsg)
+        if (input) dispatch(input)
       })
 
       // Handle presence for spectator count
       channel.onPresence((users: any[]) => {
-        const players: Record<string, Player> = {}
-        let spectators = 0
-        
-        users.forEach(user => {
-          if (user.metadata?.status === 'spectating') {
-            spectators++
-          } else {
-            players[user.userId] = {
-              id: user.userId,
-              name: user.metadata?.displayName || 'Anonymous',
-              position: { x: Math.random() * 10 - 5, y: 0, z: Math.random() * 10 - 5 },
-              rotation: { x: 0, y: 0, z: 0 },
-              health: 100,
-              maxHealth: 100,
-              color: user.metadata?.color || '#FF6B35',
-              isDrawing: false,
-              penStrokes: [],
-              activePowerUps: [],
-              score: 0,
-              kills: 0,
-              deaths: 0
-            }
-          }
-        })
-        
-        setGameState(prev => ({ ...prev, players }))
-        setSpectatorCount(spectators)
+        const players = users.filter(user => user.metadata?.status !== 'spectating')
+        hostRef.current = electHost(players.map(user => ({ userId: user.userId, joinedAt: user.joinedAt || 0 })))
+
+        // Fighters themselves arrive through player_join and game_state
+        dispatch({ type: 'presence', timestamp: matchClock(), playerIds: players.map(user => user.userId) })
+        setSpectatorCount(users.length - players.length)
+        setHostId(hostRef.current)
       })
     }
 
@@ -225,52 +262,7 @@ export function SpectatorMode({ roomId, onBack }: SpectatorModeProps) {
     return () => {
       channelRef.current?.unsubscribe()
     }
-  }, [roomId])
-
-  const handleGameMessage = (message: any) => {
-    switch (message.type) {
-      case 'player_move':
-        setGameState(prev => ({
-          ...prev,
-          players: {
-            ...prev.players,
-            [message.playerId]: {
-              ...prev.players[message.playerId],
-              position: message.data.position,
-              rotation: message.data.rotation
-            }
-          }
-        }))
-        break
-      
-      case 'pen_stroke':
-        setGameState(prev => {
-          const newPlayers = { ...prev.players }
-          
-          if (newPlayers[message.playerId]) {
-            newPlayers[message.playerId] = {
-              ...newPlayers[message.playerId],
-              penStrokes: [...(newPlayers[message.playerId]?.penStrokes || []), message.data.stroke]
-            }
-          }
-          
-          // Apply damage to hit players
-          if (message.data.hitPlayers && message.data.damage) {
-            message.data.hitPlayers.forEach((playerId: string) => {
-              if (newPlayers[playerId]) {
-                newPlayers[playerId] = {
-                  ...newPlayers[playerId],
-                  health: Math.max(0, newPlayers[playerId].health - message.data.damage)
-                }
-              }
-            })
-          }
-          
-          return { ...prev, players: newPlayers }
-        })
-        break
-    }
-  }
+  }, [roomId, spectatorId, dispatch, matchClock, receiveClockPong])
 
   const alivePlayers = Object.values(gameState.players).filter(p => p.health > 0)
   const deadPlayers = Object.values(gameState.players).filter(p => p.health <= 0)
@@ -312,15 +304,18 @@ export function SpectatorMode({ roomId, onBack }: SpectatorModeProps) {
 
           {/* Render Players */}
           {Object.values(gameState.players).map(player => (
-            <SpectatorPlayerRenderer key={player.id} player={player} />
+            <SpectatorPlayerRenderer key={player.id} player={player} interpolation={interpolation} clock={matchClock} />
           ))}
 
           {/* Render Pen Strokes */}
           {Object.values(gameState.players).map(player =>
-            player.penStrokes.map(stroke => (
-              <SpectatorStrokeRenderer key={stroke.id} stroke={stroke} />
-            ))
+            player.penStrokes.map((stroke, index) =>
+              isSettledStroke(stroke, index, player.penStrokes.length) ? null : (
+                <SpectatorStrokeRenderer key={stroke.id} stroke={stroke} interpolation={interpolation} clock={matchClock} />
+              )
+            )
           )}
+          <BatchedStrokes strokes={settledStrokes} clock={matchClock} />
 
           {/* Spectator Camera */}
           <SpectatorCamera players={gameState.players} />
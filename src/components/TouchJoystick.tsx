@@ -0,0 +1,55 @@
+import { useRef, useState } from 'react'
+import type { PointerEvent } from 'react'
+
+interface TouchJoystickProps {
+  onChange: (direction: { x: number; z: number }) => void
+}
+
+const RADIUS = 48
+
+// On-screen stick for touch screens. It captures its own pointer, so one
+// finger can steer while another draws on the arena.
+export function TouchJoystick({ onChange }: TouchJoystickProps) {
+  const pointerRef = useRef<number | null>(null)
+  const [knob, setKnob] = useState({ x: 0, y: 0 })
+
+  const update = (event: PointerEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    const dx = event.clientX - (rect.left + rect.width / 2)
+    const dy = event.clientY - (rect.top + rect.height / 2)
+    const scale = Math.min(1, RADIUS / (Math.hypot(dx, dy) || 1))
+
+    setKnob({ x: dx * scale, y: dy * scale })
+    onChange({ x: (dx * scale) / RADIUS, z: (dy * scale) / RADIUS })
+  }
+
+  const release = (event: PointerEvent<HTMLDivElement>) => {
+    if (event.pointerId !== pointerRef.current) return
+    pointerRef.current = null
+    setKnob({ x: 0, y: 0 })
+    onChange({ x: 0, z: 0 })
+  }
+
+  return (
+    <div
+      className="relative w-32 h-32 rounded-full bg-slate-800/60 border border-slate-600"
+      style={{ touchAction: 'none' }}
+      onPointerDown={event => {
+        if (pointerRef.current !== null) return
+        pointerRef.current = event.pointerId
+        event.currentTarget.setPointerCapture(event.pointerId)
+        update(event)
+      }}
+      onPointerMove={event => {
+        if (event.pointerId === pointerRef.current) update(event)
+      }}
+      onPointerUp={release}
+      onPointerCancel={release}
+    >
+      <div
+        className="absolute w-12 h-12 rounded-full bg-slate-300/80 left-1/2 top-1/2"
+        style={{ transform: `translate(calc(-50% + ${knob.x}px), calc(-50% + ${knob.y}px))` }}
+      />
+    </div>
+  )
+}
@@ -6,6 +6,7 @@ import { Input } from './ui/input'
 import { Progress } from './ui/progress'
 import { Trophy, Users, Clock, Sword, Crown, Star, Target } from 'lucide-react'
 import { blink } from '../blink/client'
+import { openChannel } from '../realtime/channel'
 
 interface TournamentPlayer {
   id: string
@@ -57,7 +58,7 @@ export function TournamentSystem({ currentUser, onJoinMatch, onBack }: Tournamen
     
     // Set up real-time tournament updates
     const setupTournamentUpdates = async () => {
-      const channel = blink.realtime.channel('tournaments')
+      const channel = openChannel('tournaments')
       await channel.subscribe({
         userId: currentUser.id,
         metadata: { displayName: playerName }
@@ -119,7 +120,7 @@ export function TournamentSystem({ currentUser, onJoinMatch, onBack }: Tournamen
       })
 
       // Notify other users
-      const channel = blink.realtime.channel('tournaments')
+      const channel = openChannel('tournaments')
       await channel.publish('tournament_update', { type: 'tournament_created', tournament })
 
       setNewTournamentName('')
@@ -152,7 +153,7 @@ export function TournamentSystem({ currentUser, onJoinMatch, onBack }: Tournamen
       })
 
       // Notify other users
-      const channel = blink.realtime.channel('tournaments')
+      const channel = openChannel('tournaments')
       await channel.publish('tournament_update', { 
         type: 'player_joined', 
         tournamentId: tournament.id,
@@ -200,7 +201,7 @@ export function TournamentSystem({ currentUser, onJoinMatch, onBack }: Tournamen
       })
 
       // Notify players
-      const channel = blink.realtime.channel('tournaments')
+      const channel = openChannel('tournaments')
       await channel.publish('tournament_update', { 
         type: 'tournament_started', 
         tournamentId: tournament.id
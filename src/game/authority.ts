@@ -0,0 +1,31 @@
+import type { GameMessageType } from '../types/game'
+
+// Room authority: one client per `game-room-${roomId}` channel owns the match
+// state, resolves hits and pickups, and broadcasts `game_state` snapshots.
+
+export const SNAPSHOT_INTERVAL_MS = 100
+export const JOIN_RETRY_MS = 2000
+
+// Messages only the authority sends; from anyone else they are forged
+const HOST_MESSAGES: ReadonlySet<GameMessageType> = new Set<GameMessageType>(['game_state', 'countdown_start', 'power_up_spawn', 'clock_pong'])
+
+export function isFromHost(type: GameMessageType, senderId: string, hostId: string | null): boolean {
+  return !HOST_MESSAGES.has(type) || (hostId !== null && senderId === hostId)
+}
+
+export interface HostCandidate {
+  userId: string
+  joinedAt: number
+}
+
+// The longest-present member is the authority (ties broken by id). Every client
+// runs this over the same presence list, so they agree without negotiating, and
+// late joiners never displace a host that is still in the room.
+export function electHost(candidates: HostCandidate[]): string | null {
+  if (candidates.length === 0) return null
+
+  const [host] = [...candidates].sort((a, b) =>
+    a.joinedAt - b.joinedAt || (a.userId < b.userId ? -1 : a.userId > b.userId ? 1 : 0)
+  )
+  return host.userId
+}
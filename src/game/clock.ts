@@ -0,0 +1,59 @@
+// Match clock: every client runs the simulation on the room host's clock, so
+// countdowns, power-up expiry and the end of the match land together. Clients
+// estimate their offset from the host with NTP-style `clock_ping` /
+// `clock_pong` round trips; until the first answer the offset is zero, so a
+// client simply runs on its own clock.
+
+export const CLOCK_SYNC_INTERVAL_MS = 2000
+// A few quick pings on joining (or when the host changes) settle the estimate before play
+export const CLOCK_SYNC_BURST = 5
+export const CLOCK_SYNC_BURST_INTERVAL_MS = 200
+
+const MAX_SAMPLES = 8
+
+export interface ClockSample {
+  offset: number // host time minus local time
+  roundTrip: number
+}
+
+export interface ClockEstimate {
+  samples: ClockSample[]
+  offset: number
+}
+
+export function createClockEstimate(): ClockEstimate {
+  return { samples: [], offset: 0 }
+}
+
+// The host stamped its reply somewhere during the round trip; assume the midpoint
+export function measureClockSample(sentAt: number, hostTime: number, receivedAt: number): ClockSample {
+  return {
+    offset: hostTime - (sentAt + receivedAt) / 2,
+    roundTrip: Math.max(0, receivedAt - sentAt)
+  }
+}
+
+// Keep the latest samples and trust the fastest half of them: a short round
+// trip bounds how wrong the midpoint guess can be. Their median offset shrugs
+// off the odd delayed reply.
+export function addClockSample(estimate: ClockEstimate, sample: ClockSample) {
+  estimate.samples.push(sample)
+  if (estimate.samples.length > MAX_SAMPLES) estimate.samples.shift()
+
+  const fastest = [...estimate.samples]
+    .sort((a, b) => a.roundTrip - b.roundTrip)
+    .slice(0, Math.ceil(estimate.samples.length / 2))
+    .map(entry => entry.offset)
+    .sort((a, b) => a - b)
+  const middle = Math.floor(fastest.length / 2)
+  estimate.offset = fastest.length % 2 === 1 ? fastest[middle] : (fastest[middle - 1] + fastest[middle]) / 2
+}
+
+// A new host keeps the offset (it answers on the clock it already ran on) but earlier round trips no longer apply
+export function resetClockSamples(estimate: ClockEstimate) {
+  estimate.samples = []
+}
+
+export function matchTime(estimate: ClockEstimate, localTime: number): number {
+  return localTime + estimate.offset
+}
@@ -0,0 +1,206 @@
+import type { OwnedStroke, Vector3 } from '../types/game'
+
+// Stroke-vs-body collision. Strokes are tested as the polyline between their
+// points, so fast strokes with sparse points cannot skip over a target.
+
+export interface Sphere {
+  id: string
+  center: Vector3
+  radius: number
+}
+
+// Shortest distance from `point` to the segment a-b
+export function distanceToSegment(point: Vector3, a: Vector3, b: Vector3): number {
+  const abx = b.x - a.x
+  const aby = b.y - a.y
+  const abz = b.z - a.z
+  const lengthSq = abx * abx + aby * aby + abz * abz
+  const t = lengthSq === 0
+    ? 0
+    : Math.max(0, Math.min(1, ((point.x - a.x) * abx + (point.y - a.y) * aby + (point.z - a.z) * abz) / lengthSq))
+
+  return Math.hypot(point.x - (a.x + abx * t), point.y - (a.y + aby * t), point.z - (a.z + abz * t))
+}
+
+// Broad phase: spheres bucketed by the ground (x/z) cells they overlap
+export interface SpatialGrid {
+  cellSize: number
+  cells: Map<string, Sphere[]>
+}
+
+// Keys of the cells covered by the bounds of segment a-b, grown by `margin`
+function cellsCovering(cellSize: number, a: Vector3, b: Vector3, margin: number): string[] {
+  const keys: string[] = []
+  const minX = Math.floor((Math.min(a.x, b.x) - margin) / cellSize)
+  const maxX = Math.floor((Math.max(a.x, b.x) + margin) / cellSize)
+  const minZ = Math.floor((Math.min(a.z, b.z) - margin) / cellSize)
+  const maxZ = Math.floor((Math.max(a.z, b.z) + margin) / cellSize)
+  for (let cx = minX; cx <= maxX; cx++) {
+    for (let cz = minZ; cz <= maxZ; cz++) {
+      keys.push(`${cx},${cz}`)
+    }
+  }
+  return keys
+}
+
+export function createSpatialGrid(spheres: Sphere[], cellSize: number): SpatialGrid {
+  const cells = new Map<string, Sphere[]>()
+  spheres.forEach(sphere => {
+    cellsCovering(cellSize, sphere.center, sphere.center, sphere.radius).forEach(key => {
+      const bucket = cells.get(key)
+      if (bucket) bucket.push(sphere)
+      else cells.set(key, [sphere])
+    })
+  })
+  return { cellSize, cells }
+}
+
+// Spheres in cells touched by the segment's bounds, grown by `margin`
+function querySegment(grid: SpatialGrid, a: Vector3, b: Vector3, margin: number): Set<Sphere> {
+  const found = new Set<Sphere>()
+  cellsCovering(grid.cellSize, a, b, margin).forEach(key => {
+    grid.cells.get(key)?.forEach(sphere => found.add(sphere))
+  })
+  return found
+}
+
+// Ids of spheres touched by a stroke, given its thickness at every point
+export function findSegmentHits(grid: SpatialGrid, points: Vector3[], thicknesses: number[]): string[] {
+  const hits = new Set<string>()
+  for (let i = 1; i < points.length; i++) {
+    const a = points[i - 1]
+    const b = points[i]
+    const thickness = Math.max(thicknesses[i - 1], thicknesses[i])
+    querySegment(grid, a, b, thickness).forEach(sphere => {
+      if (!hits.has(sphere.id) && distanceToSegment(sphere.center, a, b) <= sphere.radius + thickness) {
+        hits.add(sphere.id)
+      }
+    })
+  }
+  return [...hits]
+}
+
+// Shortest distance between segments p1-q1 and p2-q2 (Ericson, Real-Time Collision Detection 5.1.9)
+export function segmentToSegmentDistance(p1: Vector3, q1: Vector3, p2: Vector3, q2: Vector3): number {
+  const d1 = { x: q1.x - p1.x, y: q1.y - p1.y, z: q1.z - p1.z }
+  const d2 = { x: q2.x - p2.x, y: q2.y - p2.y, z: q2.z - p2.z }
+  const r = { x: p1.x - p2.x, y: p1.y - p2.y, z: p1.z - p2.z }
+  const dot = (u: Vector3, v: Vector3) => u.x * v.x + u.y * v.y + u.z * v.z
+  const a = dot(d1, d1)
+  const e = dot(d2, d2)
+  const f = dot(d2, r)
+  const clamp = (value: number) => Math.max(0, Math.min(1, value))
+
+  let s = 0
+  let t = 0
+  if (a === 0 && e === 0) {
+    // both segments are points
+  } else if (a === 0) {
+    t = clamp(f / e)
+  } else {
+    const c = dot(d1, r)
+    if (e === 0) {
+      s = clamp(-c / a)
+    } else {
+      const b = dot(d1, d2)
+      const denom = a * e - b * b
+      s = denom !== 0 ? clamp((b * f - c * e) / denom) : 0
+      t = (b * s + f) / e
+      if (t < 0) {
+        t = 0
+        s = clamp(-c / a)
+      } else if (t > 1) {
+        t = 1
+        s = clamp((b - c) / a)
+      }
+    }
+  }
+
+  return Math.hypot(
+    p1.x + d1.x * s - (p2.x + d2.x * t),
+    p1.y + d1.y * s - (p2.y + d2.y * t),
+    p1.z + d1.z * s - (p2.z + d2.z * t)
+  )
+}
+
+// Broad phase for strokes that stand on the field (walls, traps): their
+// segments bucketed by the cells they overlap, grown by their thickness. The
+// grid outlives a tick and is synced with the strokes on the field before each
+// use, so only strokes that came or went are re-indexed.
+export interface GridSegment {
+  strokeId: string
+  ownerId: string
+  a: Vector3
+  b: Vector3
+  thickness: number
+}
+
+export interface SegmentGrid {
+  cellSize: number
+  cells: Map<string, GridSegment[]>
+  // Indexed strokes by id: the points they were indexed with and the cells they occupy
+  strokes: Map<string, { points: Vector3[]; keys: string[] }>
+}
+
+export function createSegmentGrid(cellSize: number): SegmentGrid {
+  return { cellSize, cells: new Map(), strokes: new Map() }
+}
+
+function removeStroke(grid: SegmentGrid, strokeId: string) {
+  grid.strokes.get(strokeId)?.keys.forEach(key => {
+    const bucket = grid.cells.get(key)?.filter(segment => segment.strokeId !== strokeId)
+    if (bucket && bucket.length > 0) grid.cells.set(key, bucket)
+    else grid.cells.delete(key)
+  })
+  grid.strokes.delete(strokeId)
+}
+
+function addStroke(grid: SegmentGrid, { ownerId, stroke }: OwnedStroke) {
+  const keys = new Set<string>()
+  for (let i = 1; i < stroke.points.length; i++) {
+    const segment = { strokeId: stroke.id, ownerId, a: stroke.points[i - 1], b: stroke.points[i], thickness: stroke.thickness }
+    cellsCovering(grid.cellSize, segment.a, segment.b, segment.thickness).forEach(key => {
+      keys.add(key)
+      const bucket = grid.cells.get(key)
+      if (bucket) bucket.push(segment)
+      else grid.cells.set(key, [segment])
+    })
+  }
+  grid.strokes.set(stroke.id, { points: stroke.points, keys: [...keys] })
+}
+
+// Bring the grid in line with `strokes`: index new ones, drop those that are gone
+export function syncSegmentGrid(grid: SegmentGrid, strokes: OwnedStroke[]) {
+  const present = new Set<string>()
+  strokes.forEach(owned => {
+    present.add(owned.stroke.id)
+    const indexed = grid.strokes.get(owned.stroke.id)
+    if (indexed?.points === owned.stroke.points) return
+    if (indexed) removeStroke(grid, owned.stroke.id)
+    addStroke(grid, owned)
+  })
+  grid.strokes.forEach((_, strokeId) => {
+    if (!present.has(strokeId)) removeStroke(grid, strokeId)
+  })
+}
+
+// Segments in cells touched by the bounds of a-b, grown by `margin`
+export function querySegments(grid: SegmentGrid, a: Vector3, b: Vector3, margin: number): Set<GridSegment> {
+  const found = new Set<GridSegment>()
+  cellsCovering(grid.cellSize, a, b, margin).forEach(key => {
+    grid.cells.get(key)?.forEach(segment => found.add(segment))
+  })
+  return found
+}
+
+// The leading part of a polyline, stopping before the first segment that
+// touches one of the barriers that `blocks`; the whole polyline if nothing is in the way
+export function truncateAtBarriers(points: Vector3[], thickness: number, barriers: SegmentGrid, blocks: (barrier: GridSegment) => boolean = () => true): Vector3[] {
+  for (let i = 1; i < points.length; i++) {
+    const blocked = [...querySegments(barriers, points[i - 1], points[i], thickness)].some(barrier =>
+      blocks(barrier) && segmentToSegmentDistance(points[i - 1], points[i], barrier.a, barrier.b) <= thickness + barrier.thickness
+    )
+    if (blocked) return points.slice(0, i)
+  }
+  return points
+}
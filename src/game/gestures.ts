@@ -0,0 +1,246 @@
+import type { SpecialAttackKind, Vector3 } from '../types/game'
+
+// Unistroke gesture recognizer in the style of the $1 recognizer (Wobbrock et
+// al.). Strokes live in 3D, so they are first flattened onto their own best-fit
+// plane; the 2D path is then resampled, rotated, scaled and matched against
+// templates.
+
+export type GestureName = 'circle' | 'line' | 'zigzag' | 'spiral' | 'triangle'
+
+export const GESTURE_ATTACKS: Record<GestureName, SpecialAttackKind> = {
+  circle: 'shield_ring',
+  line: 'projectile',
+  zigzag: 'lightning',
+  spiral: 'vortex',
+  triangle: 'shockwave'
+}
+
+export interface GestureMatch {
+  gesture: GestureName
+  score: number // 0..1, higher is a closer match
+}
+
+interface Point2 {
+  x: number
+  y: number
+}
+
+const SAMPLE_COUNT = 64
+const SQUARE_SIZE = 250
+const HALF_DIAGONAL = 0.5 * Math.hypot(SQUARE_SIZE, SQUARE_SIZE)
+const ANGLE_RANGE = (45 * Math.PI) / 180
+const ANGLE_PRECISION = (2 * Math.PI) / 180
+const PHI = 0.5 * (-1 + Math.sqrt(5))
+
+export const MIN_GESTURE_SCORE = 0.8
+// A stroke whose ends are this close to its length apart is a line
+const LINE_STRAIGHTNESS = 0.92
+// ...but only fires as one when it is this long (world units). Shorter straight
+// strokes are plain slashes, which reach full damage at 2.5 units.
+export const MIN_LINE_LENGTH = 4
+
+function pathLength(points: Point2[]): number {
+  let length = 0
+  for (let i = 1; i < points.length; i++) {
+    length += Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y)
+  }
+  return length
+}
+
+function centroid(points: Point2[]): Point2 {
+  const sum = points.reduce((acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y }), { x: 0, y: 0 })
+  return { x: sum.x / points.length, y: sum.y / points.length }
+}
+
+function resample(points: Point2[], count: number): Point2[] {
+  const interval = pathLength(points) / (count - 1)
+  const source = points.map(p => ({ ...p }))
+  const result: Point2[] = [source[0]]
+  let accumulated = 0
+
+  for (let i = 1; i < source.length; i++) {
+    const distance = Math.hypot(source[i].x - source[i - 1].x, source[i].y - source[i - 1].y)
+    if (accumulated + distance >= interval && distance > 0) {
+      const t = (interval - accumulated) / distance
+      const point = {
+        x: source[i - 1].x + t * (source[i].x - source[i - 1].x),
+        y: source[i - 1].y + t * (source[i].y - source[i - 1].y)
+      }
+      result.push(point)
+      source.splice(i, 0, point)
+      accumulated = 0
+    } else {
+      accumulated += distance
+    }
+  }
+  while (result.length < count) result.push(source[source.length - 1])
+  return result.slice(0, count)
+}
+
+function rotateBy(points: Point2[], angle: number): Point2[] {
+  const c = centroid(points)
+  const cos = Math.cos(angle)
+  const sin = Math.sin(angle)
+  return points.map(p => ({
+    x: (p.x - c.x) * cos - (p.y - c.y) * sin + c.x,
+    y: (p.x - c.x) * sin + (p.y - c.y) * cos + c.y
+  }))
+}
+
+function normalize(points: Point2[]): Point2[] {
+  const resampled = resample(points, SAMPLE_COUNT)
+  const c = centroid(resampled)
+  const rotated = rotateBy(resampled, -Math.atan2(c.y - resampled[0].y, c.x - resampled[0].x))
+
+  const xs = rotated.map(p => p.x)
+  const ys = rotated.map(p => p.y)
+  const width = Math.max(...xs) - Math.min(...xs) || 1
+  const height = Math.max(...ys) - Math.min(...ys) || 1
+  const scaled = rotated.map(p => ({ x: (p.x * SQUARE_SIZE) / width, y: (p.y * SQUARE_SIZE) / height }))
+
+  const center = centroid(scaled)
+  return scaled.map(p => ({ x: p.x - center.x, y: p.y - center.y }))
+}
+
+function pathDistance(a: Point2[], b: Point2[]): number {
+  let distance = 0
+  for (let i = 0; i < a.length; i++) {
+    distance += Math.hypot(a[i].x - b[i].x, a[i].y - b[i].y)
+  }
+  return distance / a.length
+}
+
+// Golden section search for the rotation that best aligns the candidate
+function distanceAtBestAngle(points: Point2[], template: Point2[]): number {
+  let a = -ANGLE_RANGE
+  let b = ANGLE_RANGE
+  let x1 = PHI * a + (1 - PHI) * b
+  let f1 = pathDistance(rotateBy(points, x1), template)
+  let x2 = (1 - PHI) * a + PHI * b
+  let f2 = pathDistance(rotateBy(points, x2), template)
+
+  while (Math.abs(b - a) > ANGLE_PRECISION) {
+    if (f1 < f2) {
+      b = x2
+      x2 = x1
+      f2 = f1
+      x1 = PHI * a + (1 - PHI) * b
+      f1 = pathDistance(rotateBy(points, x1), template)
+    } else {
+      a = x1
+      x1 = x2
+      f1 = f2
+      x2 = (1 - PHI) * a + PHI * b
+      f2 = pathDistance(rotateBy(points, x2), template)
+    }
+  }
+  return Math.min(f1, f2)
+}
+
+function polyline(corners: Point2[], stepsPerEdge = 16): Point2[] {
+  const points: Point2[] = []
+  for (let i = 1; i < corners.length; i++) {
+    for (let s = 0; s < stepsPerEdge; s++) {
+      const t = s / stepsPerEdge
+      points.push({
+        x: corners[i - 1].x + (corners[i].x - corners[i - 1].x) * t,
+        y: corners[i - 1].y + (corners[i].y - corners[i - 1].y) * t
+      })
+    }
+  }
+  points.push(corners[corners.length - 1])
+  return points
+}
+
+// Templates are drawn in both directions so clockwise and anticlockwise strokes match
+const TEMPLATE_SHAPES: { gesture: Exclude<GestureName, 'line'>; points: Point2[] }[] = [
+  {
+    gesture: 'circle',
+    points: Array.from({ length: 65 }, (_, i) => ({
+      x: Math.cos((i / 64) * Math.PI * 2),
+      y: Math.sin((i / 64) * Math.PI * 2)
+    }))
+  },
+  // Spirals are matched by how many turns they make, not just their shape
+  ...[1.5, 2, 2.5, 3].map(turns => ({
+    gesture: 'spiral' as const,
+    points: Array.from({ length: 97 }, (_, i) => {
+      const angle = (i / 96) * Math.PI * 2 * turns
+      const radius = 0.15 + (i / 96) * 0.85
+      return { x: Math.cos(angle) * radius, y: Math.sin(angle) * radius }
+    })
+  })),
+  {
+    gesture: 'zigzag',
+    points: polyline([0, 1, 2, 3, 4, 5].map(i => ({ x: i, y: i % 2 === 0 ? 0 : 1.5 })))
+  },
+  {
+    gesture: 'triangle',
+    points: polyline([{ x: 0, y: 0 }, { x: 1, y: 1.7 }, { x: 2, y: 0 }, { x: 0, y: 0 }])
+  }
+]
+
+const TEMPLATES = TEMPLATE_SHAPES.flatMap(({ gesture, points }) => [
+  { gesture, points: normalize(points) },
+  { gesture, points: normalize([...points].reverse()) }
+])
+
+// Flatten 3D points onto their best-fit plane using the two strongest
+// directions of spread (power iteration on the covariance matrix)
+export function projectToPlane(points: Vector3[]): Point2[] {
+  const n = points.length
+  const mean = points.reduce((acc, p) => ({ x: acc.x + p.x / n, y: acc.y + p.y / n, z: acc.z + p.z / n }), { x: 0, y: 0, z: 0 })
+  const centered = points.map(p => [p.x - mean.x, p.y - mean.y, p.z - mean.z])
+
+  const covariance = [0, 1, 2].map(r => [0, 1, 2].map(c => centered.reduce((sum, p) => sum + p[r] * p[c], 0)))
+  const multiply = (v: number[]) => covariance.map(row => row[0] * v[0] + row[1] * v[1] + row[2] * v[2])
+  const unit = (v: number[]) => {
+    const length = Math.hypot(v[0], v[1], v[2]) || 1
+    return v.map(value => value / length)
+  }
+  const dominant = (seed: number[], exclude?: number[]) => {
+    let v = unit(seed)
+    for (let i = 0; i < 32; i++) {
+      v = multiply(v)
+      if (exclude) {
+        const dot = v[0] * exclude[0] + v[1] * exclude[1] + v[2] * exclude[2]
+        v = v.map((value, k) => value - dot * exclude[k])
+      }
+      v = unit(v)
+    }
+    return v
+  }
+
+  const first = dominant([1, 0.3, 0.1])
+  const second = dominant([0.3, 1, 0.2], first)
+  return centered.map(p => ({
+    x: p[0] * first[0] + p[1] * first[1] + p[2] * first[2],
+    y: p[0] * second[0] + p[1] * second[1] + p[2] * second[2]
+  }))
+}
+
+// Best matching gesture for a stroke, or null if nothing matches well enough
+export function recognizeGesture(points: Vector3[]): GestureMatch | null {
+  if (points.length < 2) return null
+
+  const flat = projectToPlane(points)
+  const length = pathLength(flat)
+  if (length === 0) return null
+
+  const ends = Math.hypot(flat[flat.length - 1].x - flat[0].x, flat[flat.length - 1].y - flat[0].y)
+  // Straight strokes are never matched against the shape templates: scaling one
+  // to the template square blows its wobble up into a zigzag
+  if (ends / length >= LINE_STRAIGHTNESS) {
+    return length >= MIN_LINE_LENGTH ? { gesture: 'line', score: ends / length } : null
+  }
+
+  const candidate = normalize(flat)
+  let best: GestureMatch | null = null
+  TEMPLATES.forEach(template => {
+    const score = 1 - distanceAtBestAngle(candidate, template.points) / HALF_DIAGONAL
+    if (!best || score > best.score) best = { gesture: template.gesture, score }
+  })
+
+  const match = best as GestureMatch | null
+  return match && match.score >= MIN_GESTURE_SCORE ? match : null
+}
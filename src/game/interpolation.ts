@@ -0,0 +1,116 @@
+import type { Vector3 } from '../types/game'
+
+// Remote entities are drawn slightly in the past so there are usually two
+// received samples to blend between. Samples are stamped on the authority's
+// clock, so the delay covers a snapshot interval plus the snapshot's trip here.
+// Samples are kept for about a second per entity, enough to bridge a late
+// snapshot without growing unbounded.
+
+export const INTERPOLATION_DELAY_MS = 200
+export const MAX_EXTRAPOLATION_MS = 100
+export const STROKE_REVEAL_MS = 150
+
+// A jump further than this between samples is a teleport (a respawn), not movement to blend
+const TELEPORT_DISTANCE = 3
+
+const MAX_SAMPLES = 32
+const SAMPLE_HISTORY_MS = 1000
+
+interface Sample {
+  time: number
+  position: Vector3
+  rotation: Vector3
+}
+
+export interface InterpolationBuffer {
+  samples: Map<string, Sample[]>
+  strokesSeenAt: Map<string, number>
+}
+
+export interface InterpolatedPose {
+  position: Vector3
+  rotation: Vector3
+}
+
+export function createInterpolationBuffer(): InterpolationBuffer {
+  return { samples: new Map(), strokesSeenAt: new Map() }
+}
+
+function lerp(a: Vector3, b: Vector3, t: number): Vector3 {
+  return {
+    x: a.x + (b.x - a.x) * t,
+    y: a.y + (b.y - a.y) * t,
+    z: a.z + (b.z - a.z) * t
+  }
+}
+
+// Record where an entity was at `time` on the authority's clock. Every update carries a
+// new position object, so seeing the last one again means nothing new arrived; an
+// update at the same coordinates is kept, so a fighter who stops is not extrapolated on.
+export function pushSample(buffer: InterpolationBuffer, entityId: string, time: number, position: Vector3, rotation: Vector3) {
+  const samples = buffer.samples.get(entityId) || []
+  const last = samples[samples.length - 1]
+  if (last && (time <= last.time || last.position === position)) return
+
+  const teleported = last && Math.hypot(position.x - last.position.x, position.y - last.position.y, position.z - last.position.z) > TELEPORT_DISTANCE
+  if (teleported) samples.length = 0
+  samples.push({ time, position, rotation })
+  while (samples.length > MAX_SAMPLES || (samples.length > 2 && samples[0].time < time - SAMPLE_HISTORY_MS)) {
+    samples.shift()
+  }
+  buffer.samples.set(entityId, samples)
+}
+
+export function markStrokeSeen(buffer: InterpolationBuffer, strokeId: string, time: number) {
+  if (!buffer.strokesSeenAt.has(strokeId)) {
+    buffer.strokesSeenAt.set(strokeId, time)
+  }
+}
+
+// Forget entities and strokes that are no longer in the game
+export function pruneBuffer(buffer: InterpolationBuffer, entityIds: Set<string>, strokeIds: Set<string>) {
+  buffer.samples.forEach((_, id) => {
+    if (!entityIds.has(id)) buffer.samples.delete(id)
+  })
+  buffer.strokesSeenAt.forEach((_, id) => {
+    if (!strokeIds.has(id)) buffer.strokesSeenAt.delete(id)
+  })
+}
+
+// Blend between the samples around `renderTime`. Past the newest sample the
+// entity keeps its last velocity for a short while, then holds its last known pose.
+export function sampleAt(buffer: InterpolationBuffer, entityId: string, renderTime: number): InterpolatedPose | null {
+  const samples = buffer.samples.get(entityId)
+  if (!samples || samples.length === 0) return null
+
+  const first = samples[0]
+  if (renderTime <= first.time || samples.length === 1) {
+    return { position: first.position, rotation: first.rotation }
+  }
+
+  for (let i = samples.length - 1; i > 0; i--) {
+    const from = samples[i - 1]
+    const to = samples[i]
+    if (renderTime >= from.time && renderTime <= to.time) {
+      const t = (renderTime - from.time) / (to.time - from.time)
+      return { position: lerp(from.position, to.position, t), rotation: to.rotation }
+    }
+  }
+
+  const previous = samples[samples.length - 2]
+  const last = samples[samples.length - 1]
+  const overdue = renderTime - last.time
+  if (overdue > MAX_EXTRAPOLATION_MS) {
+    return { position: last.position, rotation: last.rotation }
+  }
+
+  const t = 1 + overdue / (last.time - previous.time)
+  return { position: lerp(previous.position, last.position, t), rotation: last.rotation }
+}
+
+// 0..1 share of a remote stroke to draw, so it appears in step with its interpolated owner
+export function strokeReveal(buffer: InterpolationBuffer, strokeId: string, renderTime: number): number {
+  const seenAt = buffer.strokesSeenAt.get(strokeId)
+  if (seenAt === undefined) return 1
+  return Math.max(0, Math.min(1, (renderTime - seenAt) / STROKE_REVEAL_MS))
+}
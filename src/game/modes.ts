@@ -0,0 +1,112 @@
+// Per-mode tuning for the simulation, keyed by GameState.gameMode.id
+
+export interface StrokeRules {
+  maxInk: number
+  inkPerUnit: number // drained per world unit of stroke drawn
+  inkRegenPerSecond: number
+  cooldownMs: number // minimum time between the end of one stroke and the next
+  minStrokeLength: number // world units along the stroke
+  maxStrokeLength: number
+  simplifyTolerance: number // world units a published stroke's surface may move when simplified; hit tests allow for it
+}
+
+export const DEFAULT_STROKE_RULES: StrokeRules = {
+  maxInk: 100,
+  inkPerUnit: 12,
+  inkRegenPerSecond: 15,
+  cooldownMs: 500,
+  minStrokeLength: 0.3,
+  maxStrokeLength: 8,
+  simplifyTolerance: 0.01
+}
+
+const STROKE_RULES_BY_MODE: Record<string, Partial<StrokeRules>> = {
+  target_practice: { inkRegenPerSecond: 40, cooldownMs: 250 },
+  lightning_round: { maxInk: 60, inkRegenPerSecond: 30, cooldownMs: 200, maxStrokeLength: 5 },
+  king_of_hill: { cooldownMs: 750 }
+}
+
+export function getStrokeRules(gameModeId: string): StrokeRules {
+  return { ...DEFAULT_STROKE_RULES, ...STROKE_RULES_BY_MODE[gameModeId] }
+}
+
+export interface CombatRules {
+  respawnMs: number | null // null keeps fallen fighters out for the rest of the match
+  killScore: number
+  damageScore: number // per point of damage dealt
+}
+
+export const DEFAULT_COMBAT_RULES: CombatRules = {
+  respawnMs: 3000,
+  killScore: 100,
+  damageScore: 1
+}
+
+const COMBAT_RULES_BY_MODE: Record<string, Partial<CombatRules>> = {
+  lightning_round: { respawnMs: 1500 },
+  king_of_hill: { respawnMs: 5000 }
+}
+
+export function getCombatRules(gameModeId: string): CombatRules {
+  return { ...DEFAULT_COMBAT_RULES, ...COMBAT_RULES_BY_MODE[gameModeId] }
+}
+
+// How a finished match picks its winner: most kills to the limit, or the best
+// score when the clock runs out. Either way the last fighter left in the room
+// wins. In team modes kills and score are counted per team.
+export type WinCondition = 'kill_limit' | 'score'
+
+export interface MatchRules {
+  minPlayers: number
+  countdownMs: number
+  winCondition: WinCondition
+  killLimit: number // only for 'kill_limit'
+}
+
+export const DEFAULT_MATCH_RULES: MatchRules = {
+  minPlayers: 2,
+  countdownMs: 5000,
+  winCondition: 'score',
+  killLimit: 10
+}
+
+const MATCH_RULES_BY_MODE: Record<string, Partial<MatchRules>> = {
+  deathmatch: { winCondition: 'kill_limit' },
+  team_battle: { winCondition: 'kill_limit', killLimit: 25 },
+  lightning_round: { countdownMs: 3000 }
+}
+
+export function getMatchRules(gameModeId: string): MatchRules {
+  return { ...DEFAULT_MATCH_RULES, ...MATCH_RULES_BY_MODE[gameModeId] }
+}
+
+export interface Team {
+  id: string
+  name: string
+  color: string // fighters and their strokes take their team's colour
+}
+
+export const TEAMS: Team[] = [
+  { id: 'red', name: 'Red Team', color: '#ef4444' },
+  { id: 'blue', name: 'Blue Team', color: '#3b82f6' }
+]
+
+export interface TeamRules {
+  teams: Team[] // empty for free-for-all modes
+  friendlyFire: boolean // default for rooms that do not choose; teammates can hurt each other
+  sharedPowerUps: boolean // a pickup powers up the collector's whole team
+}
+
+export const DEFAULT_TEAM_RULES: TeamRules = {
+  teams: [],
+  friendlyFire: false,
+  sharedPowerUps: false
+}
+
+const TEAM_RULES_BY_MODE: Record<string, Partial<TeamRules>> = {
+  team_battle: { teams: TEAMS, sharedPowerUps: true }
+}
+
+export function getTeamRules(gameModeId: string): TeamRules {
+  return { ...DEFAULT_TEAM_RULES, ...TEAM_RULES_BY_MODE[gameModeId] }
+}
@@ -0,0 +1,268 @@
+import { z } from 'zod'
+import { MAX_COMMANDS_PER_MESSAGE, MAX_STROKE_POINTS, MAX_STROKES_PER_ROOM } from './simulation'
+import { STROKES_PER_SYNC } from './stroke-sync'
+import type {
+  ActivePowerUp,
+  GameMessage,
+  GameMessagePayloads,
+  GameMessageType,
+  GameSnapshot,
+  GameState,
+  LeaderboardEntry,
+  MatchStats,
+  MoveCommand,
+  OwnedStroke,
+  PenStroke,
+  PlayerSnapshot,
+  PowerUpData,
+  StrokePoint,
+  StrokeState,
+  Vector3
+} from '../types/game'
+
+// Wire protocol for `game-room-${roomId}` channels. Every payload carries the
+// protocol version it was encoded with; anything we cannot read is dropped.
+
+export const PROTOCOL_VERSION = 14
+
+const vector3Schema: z.ZodType<Vector3> = z.object({
+  x: z.number(),
+  y: z.number(),
+  z: z.number()
+})
+
+const moveCommandSchema: z.ZodType<MoveCommand> = z.object({
+  seq: z.number().int(),
+  direction: z.object({ x: z.number(), z: z.number() })
+})
+
+const powerUpTypeSchema = z.enum(['speed', 'damage', 'health', 'shield', 'multishot'])
+
+const strokePointSchema: z.ZodType<StrokePoint> = z.object({
+  x: z.number(),
+  y: z.number(),
+  z: z.number(),
+  pressure: z.number().min(0).max(1).optional(),
+  tilt: z.number().min(0).max(90).optional()
+})
+
+const specialAttackSchema = z.enum(['shield_ring', 'projectile', 'lightning', 'vortex', 'shockwave'])
+
+const penStrokeSchema: z.ZodType<PenStroke> = z.object({
+  id: z.string(),
+  points: z.array(strokePointSchema).max(MAX_STROKE_POINTS),
+  color: z.string(),
+  thickness: z.number(),
+  timestamp: z.number(),
+  special: specialAttackSchema.optional(),
+  behavior: z.enum(['attack', 'wall', 'trap']).optional(),
+  expiresAt: z.number().optional(),
+  triggeredBy: z.array(z.string()).optional()
+})
+
+const strokeStateSchema: z.ZodType<StrokeState> = z.object({
+  id: z.string(),
+  expiresAt: z.number().optional(),
+  special: specialAttackSchema.optional(),
+  triggeredBy: z.array(z.string()).optional()
+})
+
+const ownedStrokeSchema: z.ZodType<OwnedStroke> = z.object({
+  ownerId: z.string(),
+  stroke: penStrokeSchema
+})
+
+const activePowerUpSchema: z.ZodType<ActivePowerUp> = z.object({
+  type: powerUpTypeSchema,
+  endTime: z.number(),
+  multiplier: z.number()
+})
+
+const powerUpSchema: z.ZodType<PowerUpData> = z.object({
+  id: z.string(),
+  type: powerUpTypeSchema,
+  position: vector3Schema,
+  timestamp: z.number(),
+  duration: z.number()
+})
+
+const matchStatsSchema: z.ZodType<MatchStats> = z.object({
+  damageDealt: z.number(),
+  damageTaken: z.number(),
+  strokesDrawn: z.number().int(),
+  attacks: z.number().int(),
+  hits: z.number().int(),
+  powerUpsCollected: z.number().int()
+})
+
+const playerSchema: z.ZodType<PlayerSnapshot> = z.object({
+  id: z.string(),
+  name: z.string(),
+  position: vector3Schema,
+  rotation: vector3Schema,
+  health: z.number(),
+  maxHealth: z.number(),
+  color: z.string(),
+  isDrawing: z.boolean(),
+  penStrokes: z.array(strokeStateSchema),
+  activePowerUps: z.array(activePowerUpSchema),
+  score: z.number(),
+  kills: z.number(),
+  deaths: z.number(),
+  team: z.string().optional(),
+  ink: z.number(),
+  lastStrokeAt: z.number().optional(),
+  respawnAt: z.number().optional(),
+  lastKilledBy: z.string().optional(),
+  stats: matchStatsSchema
+})
+
+const leaderboardEntrySchema: z.ZodType<LeaderboardEntry> = z.object({
+  playerId: z.string(),
+  playerName: z.string(),
+  team: z.string().optional(),
+  score: z.number(),
+  kills: z.number(),
+  deaths: z.number(),
+  stats: matchStatsSchema
+})
+
+const gameModeSchema: z.ZodType<GameState['gameMode']> = z.object({
+  id: z.string(),
+  name: z.string(),
+  duration: z.number(),
+  maxPlayers: z.number(),
+  friendlyFire: z.boolean().optional()
+})
+
+const gameSnapshotSchema: z.ZodType<GameSnapshot> = z.object({
+  players: z.record(z.string(), playerSchema),
+  gameStatus: z.enum(['waiting', 'playing', 'finished', 'countdown']),
+  gameMode: gameModeSchema,
+  powerUps: z.record(z.string(), powerUpSchema),
+  startTime: z.number().optional(),
+  endTime: z.number().optional(),
+  winner: z.string().optional(),
+  winningTeam: z.string().optional(),
+  roomId: z.string(),
+  leaderboard: z.array(leaderboardEntrySchema),
+  inputAcks: z.record(z.string(), z.number()).optional()
+})
+
+export const payloadSchemas: { [K in GameMessageType]: z.ZodType<GameMessagePayloads[K]> } = {
+  player_move: z.object({
+    playerId: z.string(),
+    position: vector3Schema,
+    rotation: vector3Schema,
+    commands: z.array(moveCommandSchema).max(MAX_COMMANDS_PER_MESSAGE)
+  }),
+  pen_stroke: z.object({
+    playerId: z.string(),
+    stroke: penStrokeSchema,
+    viewTime: z.number()
+  }),
+  player_attack: z.object({
+    playerId: z.string(),
+    strokeId: z.string(),
+    attack: specialAttackSchema,
+    viewTime: z.number()
+  }),
+  game_state: z.object({
+    playerId: z.string(),
+    state: gameSnapshotSchema,
+    time: z.number()
+  }),
+  player_join: z.object({
+    playerId: z.string(),
+    name: z.string(),
+    color: z.string()
+  }),
+  player_leave: z.object({
+    playerId: z.string()
+  }),
+  power_up_spawn: z.object({
+    powerUp: powerUpSchema
+  }),
+  power_up_collect: z.object({
+    playerId: z.string(),
+    powerUpId: z.string()
+  }),
+  game_mode_change: z.object({
+    gameMode: gameModeSchema
+  }),
+  countdown_start: z.object({
+    startTime: z.number(),
+    countdownMs: z.number()
+  }),
+  clock_ping: z.object({
+    playerId: z.string(),
+    sentAt: z.number()
+  }),
+  clock_pong: z.object({
+    playerId: z.string(),
+    requesterId: z.string(),
+    sentAt: z.number(),
+    hostTime: z.number()
+  }),
+  rematch_request: z.object({
+    playerId: z.string()
+  }),
+  stroke_request: z.object({
+    playerId: z.string(),
+    strokeIds: z.array(z.string()).max(MAX_STROKES_PER_ROOM)
+  }),
+  stroke_sync: z.object({
+    playerId: z.string(),
+    strokes: z.array(ownedStrokeSchema).max(STROKES_PER_SYNC)
+  })
+}
+
+export type RejectionReason = 'unknown_type' | 'version' | 'malformed' | 'spoofed'
+
+const rejections: Record<RejectionReason, number> = {
+  unknown_type: 0,
+  version: 0,
+  malformed: 0,
+  spoofed: 0
+}
+
+export function getRejectionCounts(): Readonly<Record<RejectionReason, number>> {
+  return { ...rejections }
+}
+
+function reject(reason: RejectionReason): null {
+  rejections[reason]++
+  return null
+}
+
+function isMessageType(type: unknown): type is GameMessageType {
+  return typeof type === 'string' && Object.prototype.hasOwnProperty.call(payloadSchemas, type)
+}
+
+// Wrap a payload for publishing
+export function encodePayload<K extends GameMessageType>(_type: K, payload: GameMessagePayloads[K]) {
+  return { ...payload, v: PROTOCOL_VERSION }
+}
+
+// Validate a raw realtime message and turn it into a typed GameMessage, or null if it is rejected.
+// It is stamped `receivedAt` on our match clock: the sender's own stamp is on a clock we cannot order by.
+export function decodeMessage(raw: { type: string; data: unknown; userId?: string }, receivedAt: number): GameMessage | null {
+  const { type } = raw
+  if (!isMessageType(type)) return reject('unknown_type')
+
+  const data = raw.data as { v?: unknown } | null
+  if (!data || typeof data !== 'object' || data.v !== PROTOCOL_VERSION) return reject('version')
+
+  const parsed = payloadSchemas[type].safeParse(data)
+  if (!parsed.success) return reject('malformed')
+
+  const payload = parsed.data as { playerId?: string }
+  if (raw.userId && payload.playerId && payload.playerId !== raw.userId) return reject('spoofed')
+
+  return {
+    type,
+    playerId: raw.userId || payload.playerId || '',
+    data: parsed.data,
+    timestamp: receivedAt
+  } as GameMessage
+}
@@ -0,0 +1,1310 @@
+import { createSegmentGrid, createSpatialGrid, distanceToSegment, findSegmentHits, querySegments, syncSegmentGrid, truncateAtBarriers } from './collision'
+import type { GridSegment, SegmentGrid } from './collision'
+import { GESTURE_ATTACKS, recognizeGesture } from './gestures'
+import { DEFAULT_STROKE_RULES, getCombatRules, getMatchRules, getStrokeRules, getTeamRules } from './modes'
+import type { MatchRules, StrokeRules, Team, WinCondition } from './modes'
+import type {
+  ActivePowerUp,
+  GameState,
+  GameMessage,
+  GameSnapshot,
+  LeaderboardEntry,
+  MatchStats,
+  MoveCommand,
+  OwnedStroke,
+  Player,
+  PenStroke,
+  PowerUpData,
+  SimulationInput,
+  SimulationEvent,
+  SpecialAttackKind,
+  StrokeBehavior,
+  StrokePoint,
+  StrokeState,
+  Vector3
+} from '../types/game'
+
+// Pure, framework-free game rules. Every function here takes state in and
+// returns new state out, so the same inputs always produce the same match.
+
+export const TICK_RATE = 20
+export const TICK_MS = 1000 / TICK_RATE
+
+export const ARENA_BOUNDS = 8
+export const MOVE_SPEED = 2 // units per second
+// Moves are batched and published at this rate, independent of the tick rate
+export const MOVE_SEND_RATE = 10 // messages per second
+// Unacknowledged commands are resent with every move so a lost packet costs nothing;
+// a second of input covers every send rate down to one message per second
+export const MAX_COMMANDS_PER_MESSAGE = TICK_RATE
+export const MAX_PENDING_COMMANDS = 200
+// The authority lets each player bank at most this many move commands: one is
+// earned per tick, so bunched-up or resent messages still go through but the
+// average stays one command per tick
+export const MOVE_COMMAND_ALLOWANCE = 6
+export const PLAYER_RADIUS = 0.5 // matches the rendered avatar sphere
+export const COLLISION_CELL_SIZE = 2 // broad-phase grid cell, in world units
+export const MAX_STROKE_DAMAGE = 25
+export const DAMAGE_PER_UNIT = 10 // per world unit of stroke at neutral pressure
+export const MAX_STROKE_POINTS = 500
+export const MAX_STROKE_REACH = 6 // how far from its owner a stroke point may be drawn
+// The authority rewinds targets to what the attacker saw, but never further back than this:
+// the render delay plus up to 200 ms for the stroke to reach it
+export const MAX_REWIND_MS = 400
+// Reach grows by how far the owner could walk while drawing, but drawing longer than this earns no more
+export const MAX_STROKE_DRAW_MS = 1000
+// Slack for cooldown and ink checks, so a stroke that was legal on the sender's
+// screen is not rejected because it arrived a little early
+export const STROKE_RULES_GRACE_MS = 100
+
+// Drawn thickness per behaviour and how long the stroke stands before decaying
+export const STROKE_BEHAVIORS: Record<StrokeBehavior, { thickness: number; lifetimeMs?: number }> = {
+  attack: { thickness: 0.05, lifetimeMs: 10000 },
+  wall: { thickness: 0.12, lifetimeMs: 8000 },
+  trap: { thickness: 0.05, lifetimeMs: 12000 }
+}
+export const TRAP_DAMAGE = 15
+// Retained strokes; past these the ones closest to expiring are dropped early
+export const MAX_STROKES_PER_PLAYER = 24
+export const MAX_STROKES_PER_ROOM = 120
+// A stroke no snapshot has listed yet stays this long: snapshots sent before the
+// authority had it leave it out, and one it rejected never lists it
+export const UNCONFIRMED_STROKE_MS = 1000
+
+// Special attacks, triggered by gesture strokes shortly after they are drawn
+export const SPECIAL_ATTACK_WINDOW_MS = 1000
+export const SHIELD_RING_MS = 4000
+export const PROJECTILE_RANGE = 12
+export const PROJECTILE_RADIUS = 0.3
+export const PROJECTILE_DAMAGE = 20
+export const LIGHTNING_RANGE = 6
+export const LIGHTNING_DAMAGE = 30
+export const VORTEX_RADIUS = 3
+export const VORTEX_PULL = 1.5
+export const VORTEX_DAMAGE = 10
+export const SHOCKWAVE_RADIUS = 3
+export const SHOCKWAVE_PUSH = 2
+export const SHOCKWAVE_DAMAGE = 15
+
+// Ring of spawn points inside the arena; joiners take the one furthest from everyone else
+export const SPAWN_POINTS: Vector3[] = Array.from({ length: 8 }, (_, i) => ({
+  x: Math.round(Math.cos((i / 8) * Math.PI * 2) * 5 * 100) / 100,
+  y: 0,
+  z: Math.round(Math.sin((i / 8) * Math.PI * 2) * 5 * 100) / 100
+}))
+
+export const POWER_UP_TYPES: PowerUpData['type'][] = ['speed', 'damage', 'health', 'shield', 'multishot']
+export const POWER_UP_FIRST_SPAWN_MS = 5000
+export const POWER_UP_SPAWN_INTERVAL_MS = 15000
+export const POWER_UP_LIFETIME_MS = 30000
+export const POWER_UP_EFFECT_MS = 10000
+
+export interface SimulationState {
+  game: GameState
+  tick: number
+  time: number
+  seed: number
+  // Held movement direction per player, consumed every tick
+  moveInputs: Record<string, { x: number; z: number }>
+  // Highest movement command applied per player; older or repeated moves are dropped
+  lastMoveSeq: Record<string, number>
+  // Authority only: move commands each player may still have applied, and when that was last topped up
+  moveBudgets: Record<string, MoveBudget>
+  // Client-side prediction: our last issued command and those the authority has not yet acknowledged
+  moveSeq: number
+  pendingMoves: MoveCommand[]
+  nextPowerUpAt: number | null
+  // Authority only: recent positions per player, oldest first, for rewinding hit checks
+  positionHistory: Record<string, PositionSample[]>
+  // Broad phase for the walls and traps on the field. Only a cache, synced with
+  // the game before every use, so it is shared between states and mutated in place.
+  strokeGrids: { walls: SegmentGrid; traps: SegmentGrid }
+  // Observers: strokes drawn or received that no snapshot has listed yet, by strokeKey
+  unconfirmedStrokes: Record<string, UnconfirmedStroke>
+}
+
+export interface UnconfirmedStroke extends OwnedStroke {
+  receivedAt: number
+}
+
+export interface MoveBudget {
+  commands: number
+  refilledAt: number
+}
+
+export interface PositionSample {
+  time: number
+  position: Vector3
+}
+
+export interface StepOptions {
+  // Only the room authority resolves hits, pickups and spawns
+  authoritative: boolean
+}
+
+export interface StepResult {
+  state: SimulationState
+  events: SimulationEvent[]
+}
+
+export function createSimulation(game: GameState, time: number, seed = 1): SimulationState {
+  return {
+    game,
+    tick: 0,
+    time,
+    seed,
+    moveInputs: {},
+    lastMoveSeq: {},
+    moveBudgets: {},
+    moveSeq: 0,
+    pendingMoves: [],
+    nextPowerUpAt: null,
+    positionHistory: {},
+    strokeGrids: { walls: createSegmentGrid(COLLISION_CELL_SIZE), traps: createSegmentGrid(COLLISION_CELL_SIZE) },
+    unconfirmedStrokes: {}
+  }
+}
+
+// Mulberry32: returns a value in [0, 1) and the advanced seed
+export function nextRandom(seed: number): [number, number] {
+  const next = (seed + 0x6d2b79f5) | 0
+  let t = next
+  t = Math.imul(t ^ (t >>> 15), t | 1)
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+  return [((t ^ (t >>> 14)) >>> 0) / 4294967296, next]
+}
+
+export function createMatchStats(): MatchStats {
+  return { damageDealt: 0, damageTaken: 0, strokesDrawn: 0, attacks: 0, hits: 0, powerUpsCollected: 0 }
+}
+
+export function createPlayer(id: string, name: string, color: string, position: Vector3, ink = DEFAULT_STROKE_RULES.maxInk): Player {
+  return {
+    id,
+    name,
+    position,
+    rotation: { x: 0, y: 0, z: 0 },
+    health: 100,
+    maxHealth: 100,
+    color,
+    isDrawing: false,
+    penStrokes: [],
+    activePowerUps: [],
+    score: 0,
+    kills: 0,
+    deaths: 0,
+    ink,
+    stats: createMatchStats()
+  }
+}
+
+export function chooseSpawnPoint(game: GameState): Vector3 {
+  const others = Object.values(game.players).filter(player => player.health > 0)
+  if (others.length === 0) return SPAWN_POINTS[0]
+
+  let best = SPAWN_POINTS[0]
+  let bestDistance = -1
+  SPAWN_POINTS.forEach(point => {
+    const nearest = Math.min(...others.map(player =>
+      Math.hypot(point.x - player.position.x, point.z - player.position.z)
+    ))
+    if (nearest > bestDistance) {
+      best = point
+      bestDistance = nearest
+    }
+  })
+  return { ...best }
+}
+
+export function clampToArena(position: Vector3): Vector3 {
+  return {
+    ...position,
+    x: Math.max(-ARENA_BOUNDS, Math.min(ARENA_BOUNDS, position.x)),
+    z: Math.max(-ARENA_BOUNDS, Math.min(ARENA_BOUNDS, position.z))
+  }
+}
+
+// Fighters on the same team; nobody is their own teammate
+export function areTeammates(game: GameState, a: string, b: string): boolean {
+  const team = game.players[a]?.team
+  return a !== b && team !== undefined && team === game.players[b]?.team
+}
+
+// The room's choice wins over the mode's default
+export function isFriendlyFire(game: GameState): boolean {
+  return game.gameMode.friendlyFire ?? getTeamRules(game.gameMode.id).friendlyFire
+}
+
+// Whether `attackerId`'s strokes, traps and special attacks can hurt `targetId`
+export function canHurt(game: GameState, attackerId: string, targetId: string): boolean {
+  return attackerId !== targetId && (isFriendlyFire(game) || !areTeammates(game, attackerId, targetId))
+}
+
+// Walls block every fighter's movement; strokes only stop at the walls of the other side
+function fieldStrokes(game: GameState, behavior: StrokeBehavior): OwnedStroke[] {
+  return Object.values(game.players).flatMap(player =>
+    player.penStrokes.filter(stroke => stroke.behavior === behavior).map(stroke => ({ ownerId: player.id, stroke }))
+  )
+}
+
+function wallGrid(state: SimulationState, game: GameState): SegmentGrid {
+  syncSegmentGrid(state.strokeGrids.walls, fieldStrokes(game, 'wall'))
+  return state.strokeGrids.walls
+}
+
+function trapGrid(state: SimulationState, game: GameState): SegmentGrid {
+  syncSegmentGrid(state.strokeGrids.traps, fieldStrokes(game, 'trap'))
+  return state.strokeGrids.traps
+}
+
+// Walls stop every fighter, but a stroke passes its owner's and teammates' walls
+function blocksStrokesOf(game: GameState, ownerId: string): (wall: GridSegment) => boolean {
+  return wall => wall.ownerId !== ownerId && !areTeammates(game, ownerId, wall.ownerId)
+}
+
+// Newcomers join the smallest team, the earlier team on a tie
+function assignTeam(game: GameState): Team | undefined {
+  const { teams } = getTeamRules(game.gameMode.id)
+  if (teams.length === 0) return undefined
+
+  const sizes = teams.map(team => Object.values(game.players).filter(player => player.team === team.id).length)
+  return teams[sizes.indexOf(Math.min(...sizes))]
+}
+
+// Even the teams out before a match: fighters without a team fill the
+// smallest, then the biggest team gives up its last fighters until no team
+// is more than one ahead
+function balanceTeams(game: GameState): Record<string, Team> {
+  const { teams } = getTeamRules(game.gameMode.id)
+  if (teams.length === 0) return {}
+
+  const rosters = teams.map(team => ({ team, ids: [] as string[] }))
+  const unplaced: string[] = []
+  Object.keys(game.players).sort().forEach(id => {
+    const roster = rosters.find(entry => entry.team.id === game.players[id].team)
+    if (roster) roster.ids.push(id)
+    else unplaced.push(id)
+  })
+
+  const bySize = () => [...rosters].sort((a, b) => a.ids.length - b.ids.length)
+  unplaced.forEach(id => bySize()[0].ids.push(id))
+  for (let sorted = bySize(); sorted[sorted.length - 1].ids.length - sorted[0].ids.length > 1; sorted = bySize()) {
+    sorted[0].ids.push(sorted[sorted.length - 1].ids.pop() as string)
+  }
+
+  const assigned: Record<string, Team> = {}
+  rosters.forEach(({ team, ids }) => ids.forEach(id => {
+    assigned[id] = team
+  }))
+  return assigned
+}
+
+// Gap between a fighter at `position` and the nearest wall; negative when touching,
+// Infinity when no wall is near enough to matter
+function wallClearance(position: Vector3, walls: SegmentGrid): number {
+  let clearance = Infinity
+  querySegments(walls, position, position, PLAYER_RADIUS).forEach(wall => {
+    clearance = Math.min(clearance, distanceToSegment(position, wall.a, wall.b) - PLAYER_RADIUS - wall.thickness)
+  })
+  return clearance
+}
+
+// One command moves a player for exactly one tick, whatever the frame rate.
+// Walls stop the move, or let the player slide along them on one axis.
+export function movePosition(position: Vector3, direction: { x: number; z: number }, walls?: SegmentGrid): Vector3 {
+  const distance = MOVE_SPEED * TICK_MS / 1000
+  const step = (x: number, z: number) => clampToArena({
+    x: position.x + x * distance,
+    y: position.y,
+    z: position.z + z * distance
+  })
+  const target = step(direction.x, direction.z)
+  if (!walls || walls.strokes.size === 0) return target
+
+  // A wall drawn on top of a fighter must not trap them, so moving away is always allowed
+  const current = wallClearance(position, walls)
+  const candidates = [target, step(direction.x, 0), step(0, direction.z)]
+  return candidates.find(candidate => {
+    const clearance = wallClearance(candidate, walls)
+    return clearance > 0 || clearance >= current
+  }) ?? position
+}
+
+// Directions are at most unit length, so diagonals are no faster than straight moves
+function clampDirection(direction: { x: number; z: number }): { x: number; z: number } {
+  const length = Math.hypot(direction.x, direction.z)
+  if (!Number.isFinite(length)) return { x: 0, z: 0 }
+  return length > 1 ? { x: direction.x / length, z: direction.z / length } : direction
+}
+
+// Re-apply commands the authority has not seen yet on top of its position for us
+export function replayCommands(position: Vector3, commands: MoveCommand[], walls?: SegmentGrid): Vector3 {
+  return commands.reduce((current, command) => movePosition(current, command.direction, walls), position)
+}
+
+// Published strokes are simplified by up to the mode's tolerance, and the simplified
+// stroke stays within that distance of the drawn one. Hit tests grow strokes by it, so
+// they catch everything the drawn stroke would have.
+function hitMargin(game: GameState): number {
+  return getStrokeRules(game.gameMode.id).simplifyTolerance
+}
+
+// Players whose body is touched by any segment of the stroke before it runs into an enemy wall
+export function findStrokeHits(game: GameState, ownerId: string, stroke: PenStroke, walls: SegmentGrid): string[] {
+  const margin = hitMargin(game)
+  const points = truncateAtBarriers(stroke.points, stroke.thickness + margin, walls, blocksStrokesOf(game, ownerId))
+  if (points.length < 2) return []
+
+  const targets = Object.values(game.players)
+    .filter(player => canHurt(game, ownerId, player.id) && player.health > 0)
+    .map(player => ({ id: player.id, center: player.position, radius: PLAYER_RADIUS }))
+  const grid = createSpatialGrid(targets, COLLISION_CELL_SIZE)
+  return findSegmentHits(grid, points, points.map(point => pointThickness(stroke, point) + margin))
+}
+
+// Mouse and touch points count as a neutral half press
+function pressureWeight(point: StrokePoint): number {
+  return 0.5 + (point.pressure ?? 0.5)
+}
+
+// Harder presses draw thicker, and a tilted pen draws with its side
+export function pointThickness(stroke: PenStroke, point: StrokePoint): number {
+  return stroke.thickness * pressureWeight(point) * (1 + (point.tilt ?? 0) / 90)
+}
+
+// Damage follows drawn length, each segment weighted by the pressure at its ends,
+// so it does not depend on how many points the stroke was sampled with
+export function strokeDamage(stroke: PenStroke): number {
+  let weighted = 0
+  for (let i = 1; i < stroke.points.length; i++) {
+    const a = stroke.points[i - 1]
+    const b = stroke.points[i]
+    const length = Math.hypot(b.x - a.x, b.y - a.y, b.z - a.z)
+    weighted += DAMAGE_PER_UNIT * length * (pressureWeight(a) + pressureWeight(b)) / 2
+  }
+  return Math.min(Math.round(weighted), MAX_STROKE_DAMAGE)
+}
+
+// Total length of the stroke polyline in world units
+export function strokeLength(points: Vector3[]): number {
+  let length = 0
+  for (let i = 1; i < points.length; i++) {
+    length += Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y, points[i].z - points[i - 1].z)
+  }
+  return length
+}
+
+export function strokeInkCost(stroke: PenStroke, rules: StrokeRules): number {
+  return strokeLength(stroke.points) * rules.inkPerUnit
+}
+
+// Reject strokes the owner could not have drawn from where the authority had
+// them at `viewTime`, or could not afford under the mode's ink, cooldown and
+// length rules. Snapshots name strokes by id, so an id already on the field is refused too.
+export function isValidStroke(state: SimulationState, game: GameState, playerId: string, stroke: PenStroke, viewTime: number): boolean {
+  const { time } = state
+  const owner = game.players[playerId]
+  if (!owner || owner.health <= 0) return false
+  if (Object.values(game.players).some(player => player.penStrokes.some(s => s.id === stroke.id))) return false
+  if (stroke.points.length < 2 || stroke.points.length > MAX_STROKE_POINTS) return false
+
+  const rules = getStrokeRules(game.gameMode.id)
+  const length = strokeLength(stroke.points)
+  if (length < rules.minStrokeLength || length > rules.maxStrokeLength) return false
+  if (owner.lastStrokeAt !== undefined && time - owner.lastStrokeAt < rules.cooldownMs - STROKE_RULES_GRACE_MS) return false
+  if (strokeInkCost(stroke, rules) > owner.ink + rules.inkRegenPerSecond * STROKE_RULES_GRACE_MS / 1000) return false
+
+  // The owner may have walked anywhere reachable between the earlier of viewTime and
+  // the start of the stroke, and now
+  const rewoundTo = rewindTime(state, viewTime)
+  const startedAt = Math.max(time - MAX_STROKE_DRAW_MS, Math.min(time, stroke.timestamp))
+  const anchor = positionAt(state.positionHistory[playerId] || [], rewoundTo) ?? owner.position
+  const reach = MAX_STROKE_REACH + MOVE_SPEED * (time - Math.min(rewoundTo, startedAt)) / 1000
+
+  return stroke.points.every(point =>
+    Number.isFinite(point.x) && Number.isFinite(point.y) && Number.isFinite(point.z) &&
+    Math.hypot(point.x - anchor.x, point.y - anchor.y, point.z - anchor.z) <= reach
+  )
+}
+
+function updatePlayer(game: GameState, playerId: string, update: (player: Player) => Player): GameState {
+  const player = game.players[playerId]
+  if (!player) return game
+  return { ...game, players: { ...game.players, [playerId]: update(player) } }
+}
+
+// Add to a player's match stats; only play that counts is tallied
+function tally(game: GameState, playerId: string, counts: Partial<MatchStats>): GameState {
+  if (game.gameStatus !== 'playing') return game
+  return updatePlayer(game, playerId, player => {
+    const stats = { ...player.stats }
+    Object.entries(counts).forEach(([key, value]) => {
+      stats[key as keyof MatchStats] += value
+    })
+    return { ...player, stats }
+  })
+}
+
+// Whether the attacker's damage dealt went up between two states
+function landedHit(before: GameState, after: GameState, attackerId: string): boolean {
+  return (after.players[attackerId]?.stats.damageDealt ?? 0) > (before.players[attackerId]?.stats.damageDealt ?? 0)
+}
+
+// Damage scores for the attacker; a lethal hit credits them with the kill and
+// benches the target until its respawn time
+function applyDamage(game: GameState, attackerId: string, targets: string[], damage: number, time: number, events: SimulationEvent[]): GameState {
+  // Fighting before the match starts or after it ends does not count
+  if (game.gameStatus !== 'playing') return game
+
+  const rules = getCombatRules(game.gameMode.id)
+  let next = game
+  targets.forEach(playerId => {
+    const target = next.players[playerId]
+    // Expired effects are pruned every tick, so any shield in the list is active
+    if (!target || target.health <= 0 || target.activePowerUps.some(effect => effect.type === 'shield')) return
+    const teammate = areTeammates(next, attackerId, playerId)
+    if (teammate && !isFriendlyFire(next)) return
+
+    const dealt = Math.min(damage, target.health)
+    const health = target.health - dealt
+    next = updatePlayer(next, playerId, player => ({ ...player, health }))
+    next = tally(next, playerId, { damageTaken: dealt })
+    events.push({ type: 'player_hit', playerId, attackerId, damage: dealt })
+
+    // Hurting yourself or, with friendly fire on, a teammate earns nothing
+    const credited = attackerId !== playerId && !teammate
+    if (credited) {
+      next = updatePlayer(next, attackerId, player => ({ ...player, score: player.score + dealt * rules.damageScore }))
+      next = tally(next, attackerId, { damageDealt: dealt })
+    }
+    if (health > 0) return
+
+    next = updatePlayer(next, playerId, player => ({
+      ...player,
+      deaths: player.deaths + 1,
+      activePowerUps: [],
+      lastKilledBy: attackerId,
+      respawnAt: rules.respawnMs === null ? undefined : time + rules.respawnMs
+    }))
+    if (credited) {
+      next = updatePlayer(next, attackerId, player => ({ ...player, kills: player.kills + 1, score: player.score + rules.killScore }))
+    }
+    events.push({ type: 'player_killed', playerId, killerId: attackerId })
+  })
+  return next
+}
+
+// What the authority broadcasts: the match with every stroke cut down to its id and the fields it changes
+export function toSnapshot(game: GameState): GameSnapshot {
+  const players = Object.fromEntries(Object.entries(game.players).map(([id, player]) => [id, {
+    ...player,
+    penStrokes: player.penStrokes.map(({ id, expiresAt, special, triggeredBy }) => ({ id, expiresAt, special, triggeredBy }))
+  }]))
+  return { ...game, players }
+}
+
+// Strokes are told apart by owner as well as id, so one fighter cannot stand in for another's
+export function strokeKey(ownerId: string, strokeId: string): string {
+  return `${ownerId}/${strokeId}`
+}
+
+// Put the strokes we already have back into a snapshot. Strokes it did not
+// change stay the same objects, so renderers holding on to them do not rebuild
+// their geometry. Strokes we have that it does not list yet stay until it does
+// or UNCONFIRMED_STROKE_MS passes; strokes we never received are left out and reported.
+function restoreStrokes(state: SimulationState, snapshot: GameSnapshot, events: SimulationEvent[]): Pick<SimulationState, 'game' | 'unconfirmedStrokes'> {
+  const known = new Map<string, PenStroke>()
+  Object.values(state.game.players).forEach(player => player.penStrokes.forEach(stroke => known.set(strokeKey(player.id, stroke.id), stroke)))
+  Object.entries(state.unconfirmedStrokes).forEach(([key, { stroke }]) => known.set(key, stroke))
+  const unchanged = (ours: PenStroke, theirs: StrokeState) =>
+    ours.special === theirs.special &&
+    ours.expiresAt === theirs.expiresAt &&
+    (ours.triggeredBy?.length ?? 0) === (theirs.triggeredBy?.length ?? 0)
+
+  const unconfirmedStrokes = { ...state.unconfirmedStrokes }
+  const missing: string[] = []
+  const players = Object.fromEntries(Object.entries(snapshot.players).map(([id, player]) => [id, {
+    ...player,
+    penStrokes: player.penStrokes.flatMap(theirs => {
+      const key = strokeKey(id, theirs.id)
+      const ours = known.get(key)
+      delete unconfirmedStrokes[key]
+      if (!ours) {
+        missing.push(theirs.id)
+        return []
+      }
+      return [unchanged(ours, theirs) ? ours : { ...ours, expiresAt: theirs.expiresAt, special: theirs.special, triggeredBy: theirs.triggeredBy }]
+    })
+  }]))
+
+  Object.entries(unconfirmedStrokes).forEach(([key, { ownerId, stroke, receivedAt }]) => {
+    const owner = players[ownerId]
+    if (!owner || state.time - receivedAt > UNCONFIRMED_STROKE_MS) {
+      delete unconfirmedStrokes[key]
+      return
+    }
+    players[ownerId] = { ...owner, penStrokes: [...owner.penStrokes, stroke].slice(-MAX_STROKES_PER_PLAYER) }
+  })
+
+  if (missing.length > 0) events.push({ type: 'strokes_missing', strokeIds: missing })
+  return { game: { ...snapshot, players }, unconfirmedStrokes }
+}
+
+// Replace our state with an authoritative snapshot. Our own fighter snaps to
+// where the authority has it, then replays the inputs it has not acknowledged.
+// The state keeps the authority's send time, the timeline remote fighters are interpolated on.
+function adoptSnapshot(state: SimulationState, received: GameSnapshot, sentAt: number, events: SimulationEvent[], localPlayerId?: string): SimulationState {
+  const { game: restored, unconfirmedStrokes } = restoreStrokes(state, received, events)
+  const snapshot = { ...restored, snapshotTime: sentAt }
+  const local = localPlayerId ? state.game.players[localPlayerId] : undefined
+  const authoritative = local ? snapshot.players[local.id] : undefined
+  if (!local || !authoritative) {
+    return { ...state, unconfirmedStrokes, game: { ...snapshot, roomId: state.game.roomId } }
+  }
+
+  const ack = snapshot.inputAcks?.[local.id] ?? 0
+  const pendingMoves = state.pendingMoves.filter(command => command.seq > ack)
+  const position = authoritative.health > 0
+    ? replayCommands(authoritative.position, pendingMoves, wallGrid(state, snapshot))
+    : authoritative.position
+  const adopted = updatePlayer(snapshot, local.id, player => ({ ...player, position, rotation: local.rotation }))
+  return { ...state, pendingMoves, unconfirmedStrokes, game: { ...adopted, roomId: state.game.roomId } }
+}
+
+// Where a player was at `time`, blended between recorded ticks
+export function positionAt(history: PositionSample[], time: number): Vector3 | null {
+  if (history.length === 0) return null
+  if (time <= history[0].time) return history[0].position
+
+  for (let i = history.length - 1; i > 0; i--) {
+    const from = history[i - 1]
+    const to = history[i]
+    if (time >= from.time && time <= to.time) {
+      const t = (time - from.time) / (to.time - from.time)
+      return {
+        x: from.position.x + (to.position.x - from.position.x) * t,
+        y: from.position.y + (to.position.y - from.position.y) * t,
+        z: from.position.z + (to.position.z - from.position.z) * t
+      }
+    }
+  }
+  return history[history.length - 1].position
+}
+
+// `viewTime` clamped to the rewind window
+function rewindTime(state: SimulationState, viewTime: number): number {
+  return Math.max(state.time - MAX_REWIND_MS, Math.min(state.time, viewTime))
+}
+
+// A copy of `game` with every player moved back to `viewTime`, clamped to the rewind window
+function rewindPlayers(state: SimulationState, game: GameState, viewTime: number): GameState {
+  const time = rewindTime(state, viewTime)
+  const players = { ...game.players }
+  Object.values(players).forEach(player => {
+    const position = positionAt(state.positionHistory[player.id] || [], time)
+    if (position) players[player.id] = { ...player, position }
+  })
+  return { ...game, players }
+}
+
+function strokeCentroid(stroke: PenStroke): Vector3 {
+  const n = stroke.points.length
+  return stroke.points.reduce((c, p) => ({ x: c.x + p.x / n, y: c.y + p.y / n, z: c.z + p.z / n }), { x: 0, y: 0, z: 0 })
+}
+
+// Move a player along the ground by `distance` away from `from` (negative pulls towards it)
+function displacePlayer(game: GameState, playerId: string, from: Vector3, distance: number): GameState {
+  return updatePlayer(game, playerId, player => {
+    const dx = player.position.x - from.x
+    const dz = player.position.z - from.z
+    const length = Math.hypot(dx, dz)
+    if (length === 0) return player
+    const step = Math.max(distance, -length)
+    return { ...player, position: clampToArena({ ...player.position, x: player.position.x + (dx / length) * step, z: player.position.z + (dz / length) * step }) }
+  })
+}
+
+// Targets are picked where the attacker saw them; effects land on current positions
+function applySpecialAttack(
+  state: SimulationState,
+  game: GameState,
+  attackerId: string,
+  stroke: PenStroke,
+  attack: SpecialAttackKind,
+  viewTime: number,
+  events: SimulationEvent[]
+): GameState {
+  const attacker = game.players[attackerId]
+  const opponents = Object.values(rewindPlayers(state, game, viewTime).players)
+    .filter(player => canHurt(game, attackerId, player.id) && player.health > 0)
+  const center = strokeCentroid(stroke)
+  const distanceTo = (player: Player, point: Vector3) =>
+    Math.hypot(player.position.x - point.x, player.position.y - point.y, player.position.z - point.z)
+
+  switch (attack) {
+    case 'shield_ring':
+      return updatePlayer(game, attackerId, player => ({
+        ...player,
+        activePowerUps: [...player.activePowerUps.filter(effect => effect.type !== 'shield'), { type: 'shield', endTime: state.time + SHIELD_RING_MS, multiplier: 1 }]
+      }))
+
+    case 'projectile': {
+      // Fired from the start of the line through its end; hits the first body in its path
+      const start = stroke.points[0]
+      const end = stroke.points[stroke.points.length - 1]
+      const length = Math.hypot(end.x - start.x, end.y - start.y, end.z - start.z) || 1
+      const far = {
+        x: start.x + ((end.x - start.x) / length) * PROJECTILE_RANGE,
+        y: start.y + ((end.y - start.y) / length) * PROJECTILE_RANGE,
+        z: start.z + ((end.z - start.z) / length) * PROJECTILE_RANGE
+      }
+      const hit = opponents
+        .filter(player => distanceToSegment(player.position, start, far) <= PLAYER_RADIUS + PROJECTILE_RADIUS)
+        .sort((a, b) => distanceTo(a, start) - distanceTo(b, start))[0]
+      if (!hit) return game
+
+      // Enemy walls stop the shot before it reaches the target
+      const path = truncateAtBarriers([start, hit.position], PROJECTILE_RADIUS, wallGrid(state, game), blocksStrokesOf(game, attackerId))
+      return path.length === 2 ? applyDamage(game, attackerId, [hit.id], PROJECTILE_DAMAGE, state.time, events) : game
+    }
+
+    case 'lightning': {
+      const target = opponents
+        .filter(player => distanceTo(player, center) <= LIGHTNING_RANGE)
+        .sort((a, b) => distanceTo(a, center) - distanceTo(b, center))[0]
+      return target ? applyDamage(game, attackerId, [target.id], LIGHTNING_DAMAGE, state.time, events) : game
+    }
+
+    case 'vortex': {
+      const caught = opponents.filter(player => distanceTo(player, center) <= VORTEX_RADIUS).map(player => player.id)
+      const pulled = caught.reduce((next, playerId) => displacePlayer(next, playerId, center, -VORTEX_PULL), game)
+      return applyDamage(pulled, attackerId, caught, VORTEX_DAMAGE, state.time, events)
+    }
+
+    case 'shockwave': {
+      if (!attacker) return game
+      const caught = opponents.filter(player => distanceTo(player, attacker.position) <= SHOCKWAVE_RADIUS).map(player => player.id)
+      const pushed = caught.reduce((next, playerId) => displacePlayer(next, playerId, attacker.position, SHOCKWAVE_PUSH), game)
+      return applyDamage(pushed, attackerId, caught, SHOCKWAVE_DAMAGE, state.time, events)
+    }
+  }
+}
+
+function recordPositions(state: SimulationState): SimulationState {
+  const oldest = state.time - MAX_REWIND_MS - TICK_MS
+  const positionHistory: Record<string, PositionSample[]> = {}
+  Object.values(state.game.players).forEach(player => {
+    const history = (state.positionHistory[player.id] || []).filter(sample => sample.time >= oldest)
+    positionHistory[player.id] = [...history, { time: state.time, position: player.position }]
+  })
+  return { ...state, positionHistory }
+}
+
+export function applyInput(state: SimulationState, input: SimulationInput, options: StepOptions, events: SimulationEvent[]): SimulationState {
+  const { game } = state
+
+  switch (input.type) {
+    case 'presence': {
+      // Presence only tells us who left; newcomers arrive through player_join
+      const departed = Object.keys(game.players).filter(playerId => !input.playerIds.includes(playerId))
+      if (departed.length === 0) return state
+
+      const players = { ...game.players }
+      const lastMoveSeq = { ...state.lastMoveSeq }
+      const moveBudgets = { ...state.moveBudgets }
+      departed.forEach(playerId => {
+        delete players[playerId]
+        delete lastMoveSeq[playerId]
+        delete moveBudgets[playerId]
+      })
+      return { ...state, lastMoveSeq, moveBudgets, game: { ...game, players } }
+    }
+
+    case 'player_join': {
+      if (game.players[input.playerId]) return state
+
+      // In team modes fighters wear their team's colour
+      const rules = getStrokeRules(game.gameMode.id)
+      const team = assignTeam(game)
+      const player = createPlayer(input.playerId, input.name, team ? team.color : input.color, chooseSpawnPoint(game), rules.maxInk)
+      if (team) player.team = team.id
+      return { ...state, game: { ...game, players: { ...game.players, [player.id]: player } } }
+    }
+
+    case 'player_leave': {
+      if (!game.players[input.playerId]) return state
+
+      const players = { ...game.players }
+      delete players[input.playerId]
+      const moveInputs = { ...state.moveInputs }
+      delete moveInputs[input.playerId]
+      const lastMoveSeq = { ...state.lastMoveSeq }
+      delete lastMoveSeq[input.playerId]
+      const moveBudgets = { ...state.moveBudgets }
+      delete moveBudgets[input.playerId]
+      return { ...state, moveInputs, lastMoveSeq, moveBudgets, game: { ...game, players } }
+    }
+
+    case 'move_input':
+      return { ...state, moveInputs: { ...state.moveInputs, [input.playerId]: input.direction } }
+
+    case 'player_move': {
+      const lastSeq = state.lastMoveSeq[input.playerId] ?? 0
+      const fresh = input.commands.filter(command => command.seq > lastSeq).sort((a, b) => a.seq - b.seq)
+      const player = game.players[input.playerId]
+      if (fresh.length === 0 || !player) return state
+
+      const seq = fresh[fresh.length - 1].seq
+      const lastMoveSeq = { ...state.lastMoveSeq, [input.playerId]: seq }
+
+      // Observers only keep count, should they become the authority: remote positions come
+      // from snapshots alone, as the sender's predicted position runs ahead of them
+      if (!options.authoritative) return { ...state, lastMoveSeq }
+
+      // A client issues one command per tick, so more than it has earned means it is speeding;
+      // the excess is acknowledged but dropped, and its reconciliation snaps it back
+      const budget = state.moveBudgets[input.playerId] ?? { commands: MOVE_COMMAND_ALLOWANCE, refilledAt: state.time }
+      const earned = Math.max(0, Math.floor((state.time - budget.refilledAt) / TICK_MS))
+      const available = Math.min(MOVE_COMMAND_ALLOWANCE, budget.commands + earned)
+      const allowed = fresh.slice(0, available)
+      const moveBudgets = {
+        ...state.moveBudgets,
+        [input.playerId]: { commands: available - allowed.length, refilledAt: Math.min(state.time, budget.refilledAt + earned * TICK_MS) }
+      }
+
+      // Commands sent while fallen are acknowledged but go nowhere
+      const commands = allowed.map(command => ({ ...command, direction: clampDirection(command.direction) }))
+      const position = player.health > 0 ? replayCommands(player.position, commands, wallGrid(state, game)) : player.position
+      const moved = updatePlayer(game, input.playerId, p => ({ ...p, position, rotation: input.rotation }))
+      return {
+        ...state,
+        lastMoveSeq,
+        moveBudgets,
+        game: { ...moved, inputAcks: { ...moved.inputAcks, [input.playerId]: seq } }
+      }
+    }
+
+    case 'pen_stroke': {
+      if (options.authoritative && !isValidStroke(state, game, input.playerId, input.stroke, input.viewTime ?? state.time)) return state
+
+      // Thickness and lifetime come from the behaviour, never from the sender; team strokes are in team colours
+      const behavior = input.stroke.behavior ?? 'attack'
+      const { thickness, lifetimeMs } = STROKE_BEHAVIORS[behavior]
+      const owner = game.players[input.playerId]
+      const stroke: PenStroke = {
+        id: input.stroke.id,
+        points: input.stroke.points,
+        color: owner?.team ? owner.color : input.stroke.color,
+        timestamp: input.stroke.timestamp,
+        thickness,
+        behavior,
+        ...(lifetimeMs !== undefined && { expiresAt: state.time + lifetimeMs })
+      }
+
+      const cost = strokeInkCost(stroke, getStrokeRules(game.gameMode.id))
+      const withStroke = tally(updatePlayer(game, input.playerId, player => ({
+        ...player,
+        penStrokes: [...player.penStrokes, stroke].slice(-MAX_STROKES_PER_PLAYER),
+        ink: Math.max(0, player.ink - cost),
+        lastStrokeAt: state.time
+      })), input.playerId, { strokesDrawn: 1 })
+      if (!options.authoritative) {
+        // Kept until a snapshot lists it, since the next few may predate it
+        const unconfirmedStrokes = owner
+          ? { ...state.unconfirmedStrokes, [strokeKey(owner.id, stroke.id)]: { ownerId: owner.id, stroke, receivedAt: state.time } }
+          : state.unconfirmedStrokes
+        return { ...state, unconfirmedStrokes, game: withStroke }
+      }
+      if (behavior !== 'attack') return { ...state, game: withStroke }
+
+      // Test the stroke against where targets were on the attacker's screen
+      const rewound = rewindPlayers(state, withStroke, input.viewTime ?? state.time)
+      const hitPlayers = findStrokeHits(rewound, input.playerId, stroke, wallGrid(state, withStroke))
+      const damaged = applyDamage(withStroke, input.playerId, hitPlayers, strokeDamage(stroke), state.time, events)
+      return { ...state, game: tally(damaged, input.playerId, { attacks: 1, hits: landedHit(withStroke, damaged, input.playerId) ? 1 : 0 }) }
+    }
+
+    case 'player_attack': {
+      const attacker = game.players[input.playerId]
+      const stroke = attacker?.penStrokes[attacker.penStrokes.length - 1]
+      if (!attacker || !stroke || stroke.id !== input.strokeId || stroke.special || stroke.behavior !== 'attack') return state
+
+      const marked = updatePlayer(game, input.playerId, player => ({
+        ...player,
+        penStrokes: player.penStrokes.map(s => s.id === stroke.id ? { ...s, special: input.attack } : s)
+      }))
+      if (!options.authoritative) return { ...state, game: marked }
+
+      // Only the attacker's latest stroke, drawn moments ago, and only if it really is that gesture
+      const match = recognizeGesture(stroke.points)
+      if (attacker.health <= 0 || !match || GESTURE_ATTACKS[match.gesture] !== input.attack) return state
+      if (attacker.lastStrokeAt === undefined || state.time - attacker.lastStrokeAt > SPECIAL_ATTACK_WINDOW_MS) return state
+
+      const attacked = applySpecialAttack(state, marked, input.playerId, stroke, input.attack, input.viewTime ?? state.time, events)
+      // A shield ring is not aimed at anyone, so it does not count towards accuracy
+      if (input.attack === 'shield_ring') return { ...state, game: attacked }
+      return { ...state, game: tally(attacked, input.playerId, { attacks: 1, hits: landedHit(marked, attacked, input.playerId) ? 1 : 0 }) }
+    }
+
+    case 'power_up_spawn':
+      // The authority spawns its own; a spawn message can only be an echo or a forgery
+      if (options.authoritative || game.powerUps[input.powerUp.id]) return state
+      return {
+        ...state,
+        game: { ...game, powerUps: { ...game.powerUps, [input.powerUp.id]: input.powerUp } }
+      }
+
+    case 'power_up_collect': {
+      const powerUp = game.powerUps[input.powerUpId]
+      const collector = game.players[input.playerId]
+      if (!options.authoritative || !powerUp || !collector || collector.health <= 0) return state
+
+      const effect: ActivePowerUp = {
+        type: powerUp.type,
+        endTime: state.time + POWER_UP_EFFECT_MS,
+        multiplier: 1.5
+      }
+      const powerUps = { ...game.powerUps }
+      delete powerUps[input.powerUpId]
+
+      // With shared power-ups every teammate still standing gets the effect too
+      const { sharedPowerUps } = getTeamRules(game.gameMode.id)
+      const recipients = Object.values(game.players)
+        .filter(player => player.id === input.playerId || (sharedPowerUps && player.health > 0 && areTeammates(game, input.playerId, player.id)))
+      let collected: GameState = { ...game, powerUps }
+      recipients.forEach(recipient => {
+        collected = updatePlayer(collected, recipient.id, player => ({
+          ...player,
+          activePowerUps: [...player.activePowerUps, effect]
+        }))
+      })
+      collected = tally(collected, input.playerId, { powerUpsCollected: 1 })
+      events.push({ type: 'power_up_collected', playerId: input.playerId, powerUpId: input.powerUpId })
+      return { ...state, game: collected }
+    }
+
+    case 'countdown_start':
+      // The authority's snapshots would bring this too; the message just gets the countdown on screen sooner
+      if (options.authoritative || game.gameStatus !== 'waiting') return state
+      return { ...state, game: { ...game, gameStatus: 'countdown', startTime: input.startTime } }
+
+    case 'rematch':
+      // Anyone still in the room can call a rematch; the countdown starts once enough fighters are back
+      if (!options.authoritative || game.gameStatus !== 'finished' || !game.players[input.playerId]) return state
+      return {
+        ...state,
+        game: { ...game, gameStatus: 'waiting', startTime: undefined, endTime: undefined, winner: undefined, winningTeam: undefined, leaderboard: [] }
+      }
+
+    case 'stroke_sync': {
+      // Strokes we were missing, resent by the authority; the next snapshot puts them in order
+      if (options.authoritative) return state
+      let synced = game
+      input.strokes.forEach(({ ownerId, stroke }) => {
+        synced = updatePlayer(synced, ownerId, player => player.penStrokes.some(s => s.id === stroke.id)
+          ? player
+          : { ...player, penStrokes: [...player.penStrokes, stroke].slice(-MAX_STROKES_PER_PLAYER) })
+      })
+      return synced === game ? state : { ...state, game: synced }
+    }
+
+    case 'game_state':
+      if (options.authoritative) return state
+      return adoptSnapshot(state, input.game, input.sentAt, events, input.localPlayerId)
+
+    case 'host_migration': {
+      // The new authority continues from the last state the old one confirmed,
+      // dropping anything it had only predicted locally
+      if (!input.game) return state
+
+      const adopted = adoptSnapshot(state, input.game, state.time, events, input.localPlayerId)
+      const players: Record<string, Player> = {}
+      Object.keys(game.players).forEach(playerId => {
+        players[playerId] = adopted.game.players[playerId] || game.players[playerId]
+      })
+      // Everyone else resends what the old host never acknowledged, on top of its last positions
+      return {
+        ...adopted,
+        pendingMoves: [],
+        unconfirmedStrokes: {},
+        lastMoveSeq: { ...input.game.inputAcks },
+        game: { ...adopted.game, players, snapshotTime: undefined }
+      }
+    }
+  }
+}
+
+// Held input is turned into one numbered command per tick and predicted immediately
+function applyMovement(state: SimulationState, options: StepOptions, events: SimulationEvent[]): SimulationState {
+  let next = state
+  Object.entries(state.moveInputs).forEach(([playerId, direction]) => {
+    const player = next.game.players[playerId]
+    if (!player || player.health <= 0 || (direction.x === 0 && direction.z === 0)) return
+
+    const command: MoveCommand = { seq: next.moveSeq + 1, direction: clampDirection(direction) }
+    const position = movePosition(player.position, command.direction, wallGrid(next, next.game))
+    const moved = updatePlayer(next.game, playerId, p => ({ ...p, position }))
+    const pendingMoves = options.authoritative ? [] : [...next.pendingMoves, command].slice(-MAX_PENDING_COMMANDS)
+
+    next = {
+      ...next,
+      moveSeq: command.seq,
+      pendingMoves,
+      lastMoveSeq: { ...next.lastMoveSeq, [playerId]: command.seq },
+      game: options.authoritative ? { ...moved, inputAcks: { ...moved.inputAcks, [playerId]: command.seq } } : moved
+    }
+    events.push({
+      type: 'player_moved',
+      playerId,
+      position,
+      rotation: player.rotation,
+      commands: options.authoritative ? [command] : pendingMoves.slice(-MAX_COMMANDS_PER_MESSAGE)
+    })
+  })
+  return next
+}
+
+// Everyone predicts regeneration so meters fill smoothly; snapshots correct any drift
+function regenerateInk(state: SimulationState): SimulationState {
+  const { maxInk, inkRegenPerSecond } = getStrokeRules(state.game.gameMode.id)
+  const regen = inkRegenPerSecond * TICK_MS / 1000
+  let game = state.game
+  Object.values(game.players).forEach(player => {
+    if (player.ink >= maxInk) return
+    game = updatePlayer(game, player.id, p => ({ ...p, ink: Math.min(maxInk, p.ink + regen) }))
+  })
+  return game === state.game ? state : { ...state, game }
+}
+
+// Strokes decay away once their lifetime is over, and the room never holds
+// more than MAX_STROKES_PER_ROOM of them
+function expireStrokes(state: SimulationState): SimulationState {
+  const live = Object.values(state.game.players).flatMap(player =>
+    player.penStrokes.filter(stroke => stroke.expiresAt === undefined || stroke.expiresAt > state.time)
+  )
+  const kept = new Set(
+    live
+      .sort((a, b) => (b.expiresAt ?? Infinity) - (a.expiresAt ?? Infinity))
+      .slice(0, MAX_STROKES_PER_ROOM)
+  )
+
+  let game = state.game
+  Object.values(game.players).forEach(player => {
+    const penStrokes = player.penStrokes.filter(stroke => kept.has(stroke))
+    if (penStrokes.length !== player.penStrokes.length) {
+      game = updatePlayer(game, player.id, p => ({ ...p, penStrokes }))
+    }
+  })
+  return game === state.game ? state : { ...state, game }
+}
+
+// Traps hurt every opponent who touches them, once per opponent
+function triggerTraps(state: SimulationState, events: SimulationEvent[]): SimulationState {
+  const traps = trapGrid(state, state.game)
+  if (traps.strokes.size === 0) return state
+
+  // Each fighter looks up the traps around them, rather than each trap testing every fighter
+  const reach = PLAYER_RADIUS + hitMargin(state.game)
+  const touching = new Map<string, string[]>()
+  Object.values(state.game.players).forEach(player => {
+    if (player.health <= 0) return
+    const trapIds = new Set<string>()
+    querySegments(traps, player.position, player.position, reach).forEach(segment => {
+      if (canHurt(state.game, segment.ownerId, player.id) && distanceToSegment(player.position, segment.a, segment.b) <= reach + segment.thickness) {
+        trapIds.add(segment.strokeId)
+      }
+    })
+    trapIds.forEach(trapId => touching.set(trapId, [...(touching.get(trapId) || []), player.id]))
+  })
+  if (touching.size === 0) return state
+
+  let game = state.game
+  Object.values(state.game.players).forEach(owner => {
+    owner.penStrokes.forEach(trap => {
+      // A fighter felled by an earlier trap this tick is not caught again
+      const caught = (touching.get(trap.id) || [])
+        .filter(playerId => !trap.triggeredBy?.includes(playerId) && (game.players[playerId]?.health ?? 0) > 0)
+      if (caught.length === 0) return
+
+      game = updatePlayer(game, owner.id, player => ({
+        ...player,
+        penStrokes: player.penStrokes.map(s => s.id === trap.id ? { ...s, triggeredBy: [...(s.triggeredBy || []), ...caught] } : s)
+      }))
+      game = applyDamage(game, owner.id, caught, TRAP_DAMAGE, state.time, events)
+    })
+  })
+  return game === state.game ? state : { ...state, game }
+}
+
+// Fallen fighters come back at full health and ink, at the spawn point furthest from everyone alive
+function respawnPlayers(state: SimulationState, events: SimulationEvent[]): SimulationState {
+  const { maxInk } = getStrokeRules(state.game.gameMode.id)
+  let game = state.game
+  Object.values(state.game.players).forEach(player => {
+    if (player.health > 0 || player.respawnAt === undefined || player.respawnAt > state.time) return
+
+    const position = chooseSpawnPoint(game)
+    game = updatePlayer(game, player.id, p => ({
+      ...p,
+      position,
+      health: p.maxHealth,
+      ink: maxInk,
+      respawnAt: undefined
+    }))
+    events.push({ type: 'player_respawned', playerId: player.id, position })
+  })
+  return game === state.game ? state : { ...state, game }
+}
+
+interface MatchRecord {
+  score: number
+  kills: number
+  deaths: number
+}
+
+export interface TeamStanding extends MatchRecord {
+  team: Team
+  members: number
+}
+
+// Best first: by kills or score depending on how the mode is won, then fewer deaths
+function compareRecords(winCondition: WinCondition) {
+  const primary = (record: MatchRecord) => (winCondition === 'kill_limit' ? record.kills : record.score)
+  const secondary = (record: MatchRecord) => (winCondition === 'kill_limit' ? record.score : record.kills)
+  return (a: MatchRecord, b: MatchRecord) => primary(b) - primary(a) || secondary(b) - secondary(a) || a.deaths - b.deaths
+}
+
+export function rankPlayers(game: GameState): LeaderboardEntry[] {
+  const compare = compareRecords(getMatchRules(game.gameMode.id).winCondition)
+  return Object.values(game.players)
+    .sort((a, b) => compare(a, b) || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+    .map(player => ({
+      playerId: player.id,
+      playerName: player.name,
+      team: player.team,
+      score: player.score,
+      kills: player.kills,
+      deaths: player.deaths,
+      stats: player.stats
+    }))
+}
+
+// Team totals for the teams that have fighters, ranked the way fighters are;
+// empty in free-for-all modes. Takes players or leaderboard entries.
+export function rankTeams(gameModeId: string, fighters: (MatchRecord & { team?: string })[]): TeamStanding[] {
+  const compare = compareRecords(getMatchRules(gameModeId).winCondition)
+  return getTeamRules(gameModeId).teams
+    .map(team => {
+      const members = fighters.filter(fighter => fighter.team === team.id)
+      return {
+        team,
+        members: members.length,
+        score: members.reduce((total, fighter) => total + fighter.score, 0),
+        kills: members.reduce((total, fighter) => total + fighter.kills, 0),
+        deaths: members.reduce((total, fighter) => total + fighter.deaths, 0)
+      }
+    })
+    .filter(standing => standing.members > 0)
+    .sort(compare)
+}
+
+function isMatchOver(game: GameState, time: number, rules: MatchRules): boolean {
+  const players = Object.values(game.players)
+  // Teams play as one side; otherwise every fighter is on their own
+  const teamMode = getTeamRules(game.gameMode.id).teams.length > 0
+  const sideOf = (player: Player) => (teamMode && player.team) || player.id
+
+  if (new Set(players.map(sideOf)).size <= 1) return true
+  if (game.endTime !== undefined && time >= game.endTime) return true
+  if (rules.winCondition === 'kill_limit') {
+    const kills: Record<string, number> = {}
+    players.forEach(player => {
+      kills[sideOf(player)] = (kills[sideOf(player)] ?? 0) + player.kills
+    })
+    if (Object.values(kills).some(total => total >= rules.killLimit)) return true
+  }
+
+  // Without respawns, the last side standing wins
+  return getCombatRules(game.gameMode.id).respawnMs === null && new Set(players.filter(player => player.health > 0).map(sideOf)).size <= 1
+}
+
+// Everyone starts the match fresh, spread evenly round the spawn ring, with
+// balanced teams that each start on their own side of it
+function startMatch(game: GameState, time: number): GameState {
+  const { maxInk } = getStrokeRules(game.gameMode.id)
+  const { teams } = getTeamRules(game.gameMode.id)
+  const assigned = balanceTeams(game)
+  const teamIndex = (id: string) => (assigned[id] ? teams.indexOf(assigned[id]) : 0)
+  const ids = Object.keys(game.players).sort((a, b) => teamIndex(a) - teamIndex(b) || (a < b ? -1 : a > b ? 1 : 0))
+  const players: Record<string, Player> = {}
+  ids.forEach((id, i) => {
+    const player = game.players[id]
+    const team = assigned[id]
+    const spawn = SPAWN_POINTS[Math.floor((i * SPAWN_POINTS.length) / ids.length)]
+    players[id] = { ...createPlayer(id, player.name, team ? team.color : player.color, { ...spawn }, maxInk), team: team ? team.id : player.team }
+  })
+
+  return {
+    ...game,
+    players,
+    powerUps: {},
+    gameStatus: 'playing',
+    startTime: time,
+    endTime: game.gameMode.duration > 0 ? time + game.gameMode.duration * 60 * 1000 : undefined,
+    winner: undefined,
+    winningTeam: undefined,
+    leaderboard: []
+  }
+}
+
+// Authority only: waiting → countdown once enough fighters are in, countdown →
+// playing when it runs out, playing → finished when the mode's win condition is met
+function advanceMatch(state: SimulationState, events: SimulationEvent[]): SimulationState {
+  const { game, time } = state
+  const rules = getMatchRules(game.gameMode.id)
+  const enough = Object.keys(game.players).length >= rules.minPlayers
+
+  switch (game.gameStatus) {
+    case 'waiting': {
+      if (!enough) return state
+      const startTime = time + rules.countdownMs
+      events.push({ type: 'countdown_started', startTime, countdownMs: rules.countdownMs })
+      return { ...state, game: { ...game, gameStatus: 'countdown', startTime, endTime: undefined, winner: undefined, winningTeam: undefined } }
+    }
+
+    case 'countdown':
+      if (!enough) return { ...state, game: { ...game, gameStatus: 'waiting', startTime: undefined } }
+      if (game.startTime !== undefined && time < game.startTime) return state
+      events.push({ type: 'match_started' })
+      return { ...state, nextPowerUpAt: null, positionHistory: {}, game: startMatch(game, time) }
+
+    case 'playing': {
+      if (!isMatchOver(game, time, rules)) return state
+      // In team modes the winner is the winning team's best fighter
+      const leaderboard = rankPlayers(game)
+      const winningTeam = rankTeams(game.gameMode.id, Object.values(game.players))[0]?.team.id
+      const winner = (winningTeam ? leaderboard.find(entry => entry.team === winningTeam) : leaderboard[0])?.playerId
+      events.push({ type: 'match_finished', winner, winningTeam })
+      return { ...state, game: { ...game, gameStatus: 'finished', endTime: time, winner, winningTeam, leaderboard } }
+    }
+
+    default:
+      return state
+  }
+}
+
+function expirePowerUps(state: SimulationState, events: SimulationEvent[]): SimulationState {
+  const { game, time } = state
+  let changed = false
+
+  const powerUps = { ...game.powerUps }
+  Object.values(powerUps).forEach(powerUp => {
+    if (time - powerUp.timestamp > powerUp.duration) {
+      delete powerUps[powerUp.id]
+      events.push({ type: 'power_up_expired', powerUpId: powerUp.id })
+      changed = true
+    }
+  })
+
+  const players = { ...game.players }
+  Object.values(players).forEach(player => {
+    const activePowerUps = player.activePowerUps.filter(pu => pu.endTime > time)
+    if (activePowerUps.length !== player.activePowerUps.length) {
+      players[player.id] = { ...player, activePowerUps }
+      changed = true
+    }
+  })
+
+  return changed ? { ...state, game: { ...game, powerUps, players } } : state
+}
+
+function spawnPowerUps(state: SimulationState, events: SimulationEvent[]): SimulationState {
+  if (state.game.gameStatus !== 'playing') {
+    return state.nextPowerUpAt === null ? state : { ...state, nextPowerUpAt: null }
+  }
+  if (state.nextPowerUpAt === null) {
+    return { ...state, nextPowerUpAt: state.time + POWER_UP_FIRST_SPAWN_MS }
+  }
+  if (state.time < state.nextPowerUpAt) return state
+
+  const [rType, seedA] = nextRandom(state.seed)
+  const [rx, seedB] = nextRandom(seedA)
+  const [rz, seed] = nextRandom(seedB)
+  const powerUp: PowerUpData = {
+    id: `powerup-${state.time}-${state.tick}`,
+    type: POWER_UP_TYPES[Math.floor(rType * POWER_UP_TYPES.length)],
+    position: {
+      x: (rx - 0.5) * ARENA_BOUNDS * 2,
+      y: 1,
+      z: (rz - 0.5) * ARENA_BOUNDS * 2
+    },
+    timestamp: state.time,
+    duration: POWER_UP_LIFETIME_MS
+  }
+  events.push({ type: 'power_up_spawned', powerUp })
+
+  return {
+    ...state,
+    seed,
+    nextPowerUpAt: state.time + POWER_UP_SPAWN_INTERVAL_MS,
+    game: { ...state.game, powerUps: { ...state.game.powerUps, [powerUp.id]: powerUp } }
+  }
+}
+
+// Advance one fixed tick: apply queued inputs in timestamp order, then run
+// movement, expiry and spawning for the new simulation time.
+export function stepSimulation(state: SimulationState, inputs: SimulationInput[], options: StepOptions): StepResult {
+  const events: SimulationEvent[] = []
+  let next: SimulationState = { ...state, tick: state.tick + 1, time: state.time + TICK_MS }
+
+  const ordered = [...inputs].sort((a, b) => a.timestamp - b.timestamp)
+  ordered.forEach(input => {
+    next = applyInput(next, input, options, events)
+  })
+
+  next = applyMovement(next, options, events)
+  next = regenerateInk(next)
+  next = expirePowerUps(next, events)
+  next = expireStrokes(next)
+  if (options.authoritative) {
+    next = advanceMatch(next, events)
+    next = respawnPlayers(next, events)
+    next = triggerTraps(next, events)
+    next = spawnPowerUps(next, events)
+    next = recordPositions(next)
+  }
+
+  return { state: next, events }
+}
+
+// Translate a decoded realtime game message into a simulation input
+export function messageToInput(message: GameMessage): SimulationInput | null {
+  const { playerId, timestamp } = message
+
+  switch (message.type) {
+    case 'player_join':
+      return { type: 'player_join', playerId, timestamp, name: message.data.name, color: message.data.color }
+    case 'player_leave':
+      return { type: 'player_leave', playerId, timestamp }
+    case 'player_move':
+      return { type: 'player_move', playerId, timestamp, position: message.data.position, rotation: message.data.rotation, commands: message.data.commands }
+    case 'pen_stroke':
+      return { type: 'pen_stroke', playerId, timestamp, stroke: message.data.stroke, viewTime: message.data.viewTime }
+    case 'player_attack':
+      return { type: 'player_attack', playerId, timestamp, strokeId: message.data.strokeId, attack: message.data.attack, viewTime: message.data.viewTime }
+    case 'power_up_spawn':
+      return { type: 'power_up_spawn', timestamp, powerUp: message.data.powerUp }
+    case 'power_up_collect':
+      return { type: 'power_up_collect', playerId, timestamp, powerUpId: message.data.powerUpId }
+    case 'game_state':
+      return { type: 'game_state', timestamp, game: message.data.state, sentAt: message.data.time }
+    case 'countdown_start':
+      return { type: 'countdown_start', timestamp, startTime: message.data.startTime }
+    case 'rematch_request':
+      return { type: 'rematch', playerId, timestamp }
+    case 'stroke_sync':
+      return { type: 'stroke_sync', timestamp, strokes: message.data.strokes }
+    default:
+      return null
+  }
+}
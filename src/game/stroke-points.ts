@@ -0,0 +1,81 @@
+import { pointThickness } from './simulation'
+import type { PenStroke, StrokePoint } from '../types/game'
+
+// While drawing, points are sampled by distance and turning angle, so a
+// stroke's point count follows its shape rather than how often the pointer
+// reported a move. Before publishing, Ramer–Douglas–Peucker drops the points
+// the shape does not need.
+
+export const MIN_POINT_SPACING = 0.08 // world units between samples on a straight run
+export const MIN_TURN_SPACING = 0.02 // where the stroke turns, closer samples are still taken
+export const TURN_ANGLE = (20 * Math.PI) / 180
+
+function distance(a: StrokePoint, b: StrokePoint): number {
+  return Math.hypot(b.x - a.x, b.y - a.y, b.z - a.z)
+}
+
+// Whether `next` is worth adding after the last point of the stroke so far
+export function shouldSamplePoint(points: StrokePoint[], next: StrokePoint): boolean {
+  const last = points[points.length - 1]
+  if (!last) return true
+
+  const step = distance(last, next)
+  if (step >= MIN_POINT_SPACING) return true
+  if (step < MIN_TURN_SPACING || points.length < 2) return false
+
+  const before = points[points.length - 2]
+  const run = distance(before, last)
+  if (run === 0) return false
+  const cos = ((last.x - before.x) * (next.x - last.x) + (last.y - before.y) * (next.y - last.y) + (last.z - before.z) * (next.z - last.z)) / (run * step)
+  return Math.acos(Math.max(-1, Math.min(1, cos))) >= TURN_ANGLE
+}
+
+// How far the stroke's swept volume at point `i` moves if the segment a-b
+// replaces it: its distance from the segment, plus any thickness the segment
+// would lose there. Segments are as thick as their thicker end, like the hit
+// test, so the volume at `i` is as thick as the segments on either side.
+function deviation(points: StrokePoint[], thicknesses: number[], reach: number[], i: number, a: number, b: number): number {
+  const start = points[a]
+  const end = points[b]
+  const point = points[i]
+  const d = { x: end.x - start.x, y: end.y - start.y, z: end.z - start.z }
+  const lengthSq = d.x * d.x + d.y * d.y + d.z * d.z
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((point.x - start.x) * d.x + (point.y - start.y) * d.y + (point.z - start.z) * d.z) / lengthSq))
+  const offset = Math.hypot(start.x + d.x * t - point.x, start.y + d.y * t - point.y, start.z + d.z * t - point.z)
+  return offset + Math.max(0, reach[i] - Math.max(thicknesses[a], thicknesses[b]))
+}
+
+// Ramer–Douglas–Peucker: keep the endpoints and every point whose removal
+// would move the stroke's surface by more than `tolerance`, so the drawn stroke
+// stays inside the simplified one grown by `tolerance`. Kept points are the
+// originals, pressure and tilt included.
+export function simplifyStroke(stroke: PenStroke, tolerance: number): PenStroke {
+  const { points } = stroke
+  if (points.length <= 2 || tolerance <= 0) return stroke
+
+  const thicknesses = points.map(point => pointThickness(stroke, point))
+  const reach = thicknesses.map((thickness, i) => Math.max(thickness, thicknesses[i - 1] ?? 0, thicknesses[i + 1] ?? 0))
+  const keep = new Array<boolean>(points.length).fill(false)
+  keep[0] = true
+  keep[points.length - 1] = true
+
+  const ranges: [number, number][] = [[0, points.length - 1]]
+  while (ranges.length > 0) {
+    const [a, b] = ranges.pop() as [number, number]
+    let worst = -1
+    let worstDeviation = tolerance
+    for (let i = a + 1; i < b; i++) {
+      const value = deviation(points, thicknesses, reach, i, a, b)
+      if (value > worstDeviation) {
+        worst = i
+        worstDeviation = value
+      }
+    }
+    if (worst === -1) continue
+
+    keep[worst] = true
+    ranges.push([a, worst], [worst, b])
+  }
+
+  return { ...stroke, points: points.filter((_, i) => keep[i]) }
+}
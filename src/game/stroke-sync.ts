@@ -0,0 +1,48 @@
+import type { GameState, OwnedStroke } from '../types/game'
+
+// Snapshots name strokes by id only. A client that never got a stroke's
+// pen_stroke (it joined late, or the message was lost) asks the authority for
+// it with `stroke_request`; the authority answers with `stroke_sync`. Strokes a
+// client already has but no snapshot lists yet are held by the simulation
+// (`unconfirmedStrokes`), so they are never asked for.
+
+export const STROKES_PER_SYNC = 8 // strokes per stroke_sync message, to keep each one small
+export const STROKE_REQUEST_RETRY_MS = 1000
+
+// When each missing stroke was last asked for
+export type StrokeRequests = Map<string, number>
+
+export function createStrokeRequests(): StrokeRequests {
+  return new Map()
+}
+
+// Which of `strokeIds` to ask for now: those not asked for yet, or asked for
+// long enough ago that the answer must have been lost
+export function takeStrokeRequests(requests: StrokeRequests, strokeIds: string[], now: number): string[] {
+  const due = strokeIds.filter(id => {
+    const askedAt = requests.get(id)
+    return askedAt === undefined || now - askedAt >= STROKE_REQUEST_RETRY_MS
+  })
+  due.forEach(id => requests.set(id, now))
+
+  // Forget strokes that stopped being missing, so the map stays small
+  const missing = new Set(strokeIds)
+  requests.forEach((_, id) => {
+    if (!missing.has(id)) requests.delete(id)
+  })
+  return due
+}
+
+// The authority's answer to a request, split into stroke_sync-sized batches
+export function collectStrokes(game: GameState, strokeIds: string[]): OwnedStroke[][] {
+  const wanted = new Set(strokeIds)
+  const found = Object.values(game.players).flatMap(player =>
+    player.penStrokes.filter(stroke => wanted.has(stroke.id)).map(stroke => ({ ownerId: player.id, stroke }))
+  )
+
+  const batches: OwnedStroke[][] = []
+  for (let i = 0; i < found.length; i += STROKES_PER_SYNC) {
+    batches.push(found.slice(i, i + STROKES_PER_SYNC))
+  }
+  return batches
+}
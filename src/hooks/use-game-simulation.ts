@@ -0,0 +1,76 @@
+import { useState, useEffect, useRef, useCallback } from 'react'
+import { createSimulation, stepSimulation, TICK_MS } from '../game/simulation'
+import type { SimulationState } from '../game/simulation'
+import type { GameState, SimulationInput, SimulationEvent } from '../types/game'
+
+// When the clock jumps (a corrected offset, a long-suspended tab) the simulation
+// picks up from the new time rather than stalling or replaying this much
+const MAX_CATCH_UP_MS = 5000
+
+interface UseGameSimulationOptions {
+  authoritative?: boolean
+  onEvents?: (events: SimulationEvent[]) => void
+  // Time source for the simulation; the match clock keeps every client on the host's time
+  clock?: () => number
+}
+
+// Runs the simulation core on a fixed tick and exposes the latest GameState for rendering
+export function useGameSimulation(initialState: GameState, { authoritative = false, onEvents, clock = Date.now }: UseGameSimulationOptions = {}) {
+  const [gameState, setGameState] = useState<GameState>(initialState)
+  const simulationRef = useRef<SimulationState | null>(null)
+  const queueRef = useRef<SimulationInput[]>([])
+  // The simulation is created once per mount; later state comes from inputs
+  const initialStateRef = useRef(initialState)
+  const optionsRef = useRef({ authoritative, onEvents, clock })
+
+  useEffect(() => {
+    optionsRef.current = { authoritative, onEvents, clock }
+  }, [authoritative, onEvents, clock])
+
+  const dispatch = useCallback((input: SimulationInput) => {
+    // Inputs stamped ahead of the clock (one read before the estimate moved back) are due now
+    const now = optionsRef.current.clock()
+    queueRef.current.push(input.timestamp > now ? { ...input, timestamp: now } : input)
+  }, [])
+
+  const getSimulation = useCallback(() => simulationRef.current, [])
+
+  useEffect(() => {
+    simulationRef.current = createSimulation(initialStateRef.current, optionsRef.current.clock(), Math.floor(Math.random() * 2 ** 31))
+
+    const interval = setInterval(() => {
+      const previous = simulationRef.current
+      if (!previous) return
+
+      const now = optionsRef.current.clock()
+      let simulation = previous
+      if (simulation.time > now || now - simulation.time > MAX_CATCH_UP_MS) {
+        simulation = { ...simulation, time: now - TICK_MS }
+      }
+
+      // Catch up in fixed steps so simulation time tracks the clock
+      const events: SimulationEvent[] = []
+      while (simulation.time + TICK_MS <= now) {
+        const tickEnd = simulation.time + TICK_MS
+        const due = queueRef.current.filter(input => input.timestamp <= tickEnd)
+        queueRef.current = queueRef.current.filter(input => input.timestamp > tickEnd)
+
+        const result = stepSimulation(simulation, due, { authoritative: optionsRef.current.authoritative })
+        simulation = result.state
+        events.push(...result.events)
+      }
+
+      if (simulation.game !== previous.game) {
+        setGameState(simulation.game)
+      }
+      simulationRef.current = simulation
+      if (events.length > 0) {
+        optionsRef.current.onEvents?.(events)
+      }
+    }, TICK_MS)
+
+    return () => clearInterval(interval)
+  }, [])
+
+  return { gameState, dispatch, getSimulation }
+}
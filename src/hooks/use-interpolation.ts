@@ -0,0 +1,30 @@
+import { useEffect, useRef } from 'react'
+import { createInterpolationBuffer, markStrokeSeen, pruneBuffer, pushSample } from '../game/interpolation'
+import type { InterpolationBuffer } from '../game/interpolation'
+import type { GameState } from '../types/game'
+
+// Feeds remote players and their strokes into an interpolation buffer as game state arrives.
+// Samples are stamped with the authority's send time; on the authority itself, with the match clock.
+// The local player is predicted, so it is never buffered.
+export function useInterpolation(game: GameState, clock: () => number, localPlayerId?: string): InterpolationBuffer {
+  const bufferRef = useRef<InterpolationBuffer>(createInterpolationBuffer())
+  const { players, snapshotTime } = game
+
+  useEffect(() => {
+    const buffer = bufferRef.current
+    const time = snapshotTime ?? clock()
+    const strokeIds = new Set<string>()
+
+    Object.values(players).forEach(player => {
+      player.penStrokes.forEach(stroke => strokeIds.add(stroke.id))
+      if (player.id === localPlayerId) return
+
+      pushSample(buffer, player.id, time, player.position, player.rotation)
+      player.penStrokes.forEach(stroke => markStrokeSeen(buffer, stroke.id, time))
+    })
+
+    pruneBuffer(buffer, new Set(Object.keys(players)), strokeIds)
+  }, [players, snapshotTime, clock, localPlayerId])
+
+  return bufferRef.current
+}
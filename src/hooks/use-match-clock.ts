@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useRef } from 'react'
+import type { RefObject } from 'react'
+import { addClockSample, CLOCK_SYNC_BURST, CLOCK_SYNC_BURST_INTERVAL_MS, CLOCK_SYNC_INTERVAL_MS, createClockEstimate, matchTime, measureClockSample, resetClockSamples } from '../game/clock'
+import { encodePayload } from '../game/protocol'
+import type { RealtimeTransport } from '../realtime/transport'
+import type { GameMessagePayloads } from '../types/game'
+
+// Keeps our estimate of the host's clock and exposes the match clock built on it.
+// Everyone but the host pings it; the caller routes clock_pong messages to `receiveClockPong`.
+export function useMatchClock(channelRef: RefObject<RealtimeTransport | null>, hostId: string | null, selfId: string) {
+  const estimateRef = useRef(createClockEstimate())
+
+  const matchClock = useCallback(() => matchTime(estimateRef.current, Date.now()), [])
+
+  // Only answers to our own pings say anything about our offset
+  const receiveClockPong = useCallback((pong: GameMessagePayloads['clock_pong']) => {
+    if (pong.requesterId !== selfId) return
+    addClockSample(estimateRef.current, measureClockSample(pong.sentAt, pong.hostTime, Date.now()))
+  }, [selfId])
+
+  useEffect(() => {
+    if (!hostId || hostId === selfId) return
+
+    // Round trips to the previous host say nothing about this one
+    resetClockSamples(estimateRef.current)
+    let sent = 0
+    let timer: ReturnType<typeof setTimeout>
+    const ping = () => {
+      channelRef.current?.publish('clock_ping', encodePayload('clock_ping', { playerId: selfId, sentAt: Date.now() }))
+      sent++
+      timer = setTimeout(ping, sent < CLOCK_SYNC_BURST ? CLOCK_SYNC_BURST_INTERVAL_MS : CLOCK_SYNC_INTERVAL_MS)
+    }
+    ping()
+
+    return () => clearTimeout(timer)
+  }, [channelRef, hostId, selfId])
+
+  return { matchClock, receiveClockPong }
+}
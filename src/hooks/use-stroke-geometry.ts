@@ -0,0 +1,12 @@
+import { useEffect, useMemo } from 'react'
+import { createStrokeGeometry } from '../lib/stroke-geometry'
+import type { PenStroke } from '../types/game'
+
+// Builds a stroke's tube once per stroke object and frees it on change or unmount
+export function useStrokeGeometry(stroke: PenStroke) {
+  const geometry = useMemo(() => (stroke.points.length < 2 ? null : createStrokeGeometry(stroke)), [stroke])
+
+  useEffect(() => () => geometry?.dispose(), [geometry])
+
+  return geometry
+}
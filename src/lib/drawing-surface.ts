@@ -0,0 +1,46 @@
+import * as THREE from 'three'
+import { MAX_STROKE_REACH } from '../game/simulation'
+import type { Vector3 } from '../types/game'
+
+// Where pointer input lands in the world: the pointer ray from the camera is
+// intersected with a surface anchored at the drawing fighter.
+
+export type DrawingSurface = 'camera_plane' | 'floor' | 'sphere'
+
+export const DRAWING_SURFACES: { id: DrawingSurface; label: string }[] = [
+  { id: 'camera_plane', label: 'Facing plane' },
+  { id: 'floor', label: 'Floor' },
+  { id: 'sphere', label: 'Sphere' }
+]
+
+export const DRAWING_SPHERE_RADIUS = 2
+
+const raycaster = new THREE.Raycaster()
+const hit = new THREE.Vector3()
+
+// `pointer` is in normalized device coordinates (-1..1). Returns null when the
+// ray misses the surface or lands further away than a stroke may reach.
+export function projectPointer(
+  pointer: { x: number; y: number },
+  camera: THREE.Camera,
+  surface: DrawingSurface,
+  anchor: Vector3
+): Vector3 | null {
+  raycaster.setFromCamera(new THREE.Vector2(pointer.x, pointer.y), camera)
+  const { ray } = raycaster
+  const origin = new THREE.Vector3(anchor.x, anchor.y, anchor.z)
+
+  let result: THREE.Vector3 | null = null
+  if (surface === 'camera_plane') {
+    const normal = camera.getWorldDirection(new THREE.Vector3()).negate()
+    result = ray.intersectPlane(new THREE.Plane().setFromNormalAndCoplanarPoint(normal, origin), hit)
+  } else if (surface === 'floor') {
+    // Horizontal plane at the fighter's height, so floor strokes can still reach bodies
+    result = ray.intersectPlane(new THREE.Plane(new THREE.Vector3(0, 1, 0), -anchor.y), hit)
+  } else {
+    result = ray.intersectSphere(new THREE.Sphere(origin, DRAWING_SPHERE_RADIUS), hit)
+  }
+
+  if (!result || result.distanceTo(origin) > MAX_STROKE_REACH) return null
+  return { x: result.x, y: result.y, z: result.z }
+}
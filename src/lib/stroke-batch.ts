@@ -0,0 +1,114 @@
+import * as THREE from 'three'
+import { createStrokeGeometry, strokeFade } from './stroke-geometry'
+import type { PenStroke } from '../types/game'
+
+// Finished strokes share one BatchedMesh per material, so hundreds of them
+// cost a single draw call. Strokes join and leave the batch one by one; its
+// buffers are compacted or grown only when a new stroke does not fit.
+
+// Each player's latest strokes, and special attacks, are drawn on their own so
+// they can glow and draw in; everything older is batched
+export const RECENT_STROKES = 3
+
+const INITIAL_INSTANCES = 32
+const INITIAL_VERTICES = 32 * 1024
+const INITIAL_INDICES = 96 * 1024
+
+interface BatchEntry {
+  geometryId: number
+  instanceId: number
+  centre: THREE.Vector3
+  fade: number
+}
+
+export interface StrokeBatch {
+  mesh: THREE.BatchedMesh
+  entries: Map<string, BatchEntry>
+  maxVertices: number
+  maxIndices: number
+}
+
+export function isSettledStroke(stroke: PenStroke, index: number, count: number): boolean {
+  return index < count - RECENT_STROKES && !stroke.special
+}
+
+export function createStrokeBatch(material: THREE.Material): StrokeBatch {
+  const mesh = new THREE.BatchedMesh(INITIAL_INSTANCES, INITIAL_VERTICES, INITIAL_INDICES, material)
+  return { mesh, entries: new Map(), maxVertices: INITIAL_VERTICES, maxIndices: INITIAL_INDICES }
+}
+
+// Make room for a geometry: first reclaim space left by removed strokes, then grow the buffers
+function reserve(batch: StrokeBatch, vertices: number, indices: number) {
+  const { mesh } = batch
+  if (mesh.instanceCount >= mesh.maxInstanceCount) {
+    mesh.setInstanceCount(mesh.maxInstanceCount * 2)
+  }
+  if (mesh.unusedVertexCount >= vertices && mesh.unusedIndexCount >= indices) return
+
+  mesh.optimize()
+  if (mesh.unusedVertexCount >= vertices && mesh.unusedIndexCount >= indices) return
+
+  batch.maxVertices = Math.max(batch.maxVertices * 2, batch.maxVertices - mesh.unusedVertexCount + vertices)
+  batch.maxIndices = Math.max(batch.maxIndices * 2, batch.maxIndices - mesh.unusedIndexCount + indices)
+  mesh.setGeometrySize(batch.maxVertices, batch.maxIndices)
+}
+
+function addStroke(batch: StrokeBatch, stroke: PenStroke) {
+  const geometry = createStrokeGeometry(stroke)
+  reserve(batch, geometry.attributes.position.count, geometry.index?.count ?? 0)
+
+  const geometryId = batch.mesh.addGeometry(geometry)
+  const instanceId = batch.mesh.addInstance(geometryId)
+  batch.mesh.setColorAt(instanceId, new THREE.Color(stroke.color))
+
+  geometry.computeBoundingSphere()
+  const centre = geometry.boundingSphere ? geometry.boundingSphere.center.clone() : new THREE.Vector3()
+  // The batch keeps its own copy of the vertices
+  geometry.dispose()
+
+  batch.entries.set(stroke.id, { geometryId, instanceId, centre, fade: 1 })
+}
+
+// Add strokes that joined the batch and drop those that left it
+export function syncStrokeBatch(batch: StrokeBatch, strokes: PenStroke[]) {
+  const ids = new Set(strokes.map(stroke => stroke.id))
+  batch.entries.forEach((entry, id) => {
+    if (ids.has(id)) return
+    batch.mesh.deleteGeometry(entry.geometryId)
+    batch.entries.delete(id)
+  })
+
+  strokes.forEach(stroke => {
+    if (!batch.entries.has(stroke.id) && stroke.points.length >= 2) addStroke(batch, stroke)
+  })
+}
+
+const scale = new THREE.Matrix4()
+const matrix = new THREE.Matrix4()
+
+// Batched strokes cannot have their own opacity, so they shrink into their
+// centre over the fade window instead
+export function fadeStrokeBatch(batch: StrokeBatch, strokes: PenStroke[], now: number) {
+  strokes.forEach(stroke => {
+    const entry = batch.entries.get(stroke.id)
+    if (!entry) return
+
+    const fade = strokeFade(stroke, now)
+    if (fade === entry.fade) return
+    entry.fade = fade
+
+    const { x, y, z } = entry.centre
+    matrix.makeTranslation(x, y, z)
+      .multiply(scale.makeScale(fade, fade, fade))
+      .multiply(scale.makeTranslation(-x, -y, -z))
+    batch.mesh.setMatrixAt(entry.instanceId, matrix)
+  })
+}
+
+// Frees the batch's buffers and the material it was created with
+export function disposeStrokeBatch(batch: StrokeBatch) {
+  const material = batch.mesh.material as THREE.Material
+  material.dispose()
+  batch.mesh.dispose()
+  batch.entries.clear()
+}
@@ -0,0 +1,127 @@
+import * as THREE from 'three'
+import { MAX_STROKE_POINTS, pointThickness } from '../game/simulation'
+import type { PenStroke } from '../types/game'
+
+const RADIAL_SEGMENTS = 8
+// Strokes fade out over the last part of their lifetime
+export const STROKE_FADE_MS = 1000
+
+// 1 while a stroke is fully visible, falling to 0 as it reaches expiresAt
+export function strokeFade(stroke: PenStroke, now: number): number {
+  if (stroke.expiresAt === undefined) return 1
+  return Math.min(1, Math.max(0, (stroke.expiresAt - now) / STROKE_FADE_MS))
+}
+
+// Tube along the stroke whose radius follows the per-point pen thickness
+export function createStrokeGeometry(stroke: PenStroke): THREE.TubeGeometry {
+  const curve = new THREE.CatmullRomCurve3(stroke.points.map(p => new THREE.Vector3(p.x, p.y, p.z)))
+  const tubularSegments = stroke.points.length * 2
+  const geometry = new THREE.TubeGeometry(curve, tubularSegments, stroke.thickness, RADIAL_SEGMENTS, false)
+
+  const thicknesses = stroke.points.map(point => pointThickness(stroke, point))
+  if (thicknesses.every(thickness => thickness === stroke.thickness)) return geometry
+
+  // Each ring of vertices sits around curve.getPointAt(i / tubularSegments); scale it about that centre
+  const position = geometry.attributes.position
+  const centre = new THREE.Vector3()
+  const vertex = new THREE.Vector3()
+  for (let i = 0; i <= tubularSegments; i++) {
+    const along = (i / tubularSegments) * (thicknesses.length - 1)
+    const index = Math.min(Math.floor(along), thicknesses.length - 2)
+    const t = along - index
+    const radius = thicknesses[index] + (thicknesses[index + 1] - thicknesses[index]) * t
+    const scale = radius / stroke.thickness
+
+    curve.getPointAt(i / tubularSegments, centre)
+    for (let j = 0; j <= RADIAL_SEGMENTS; j++) {
+      const v = i * (RADIAL_SEGMENTS + 1) + j
+      vertex.fromBufferAttribute(position, v).sub(centre).multiplyScalar(scale).add(centre)
+      position.setXYZ(v, vertex.x, vertex.y, vertex.z)
+    }
+  }
+  position.needsUpdate = true
+  return geometry
+}
+
+// A tube that grows one ring per point while the stroke is being drawn.
+// Buffers are sized for the longest allowed stroke, so appending a point
+// only writes two rings instead of rebuilding the whole tube.
+export interface GrowingStroke {
+  geometry: THREE.BufferGeometry
+  count: number // points written so far
+  normals: THREE.Vector3[] // ring frame per point, carried along by parallel transport
+}
+
+const RING = RADIAL_SEGMENTS + 1
+
+export function createGrowingStroke(maxPoints = MAX_STROKE_POINTS): GrowingStroke {
+  const geometry = new THREE.BufferGeometry()
+  geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(maxPoints * RING * 3), 3).setUsage(THREE.DynamicDrawUsage))
+  geometry.setAttribute('normal', new THREE.BufferAttribute(new Float32Array(maxPoints * RING * 3), 3).setUsage(THREE.DynamicDrawUsage))
+
+  const indices = new Uint32Array((maxPoints - 1) * RADIAL_SEGMENTS * 6)
+  for (let i = 0; i < maxPoints - 1; i++) {
+    for (let j = 0; j < RADIAL_SEGMENTS; j++) {
+      const a = i * RING + j
+      const b = (i + 1) * RING + j
+      indices.set([a, b, a + 1, b, b + 1, a + 1], (i * RADIAL_SEGMENTS + j) * 6)
+    }
+  }
+  geometry.setIndex(new THREE.BufferAttribute(indices, 1))
+  geometry.setDrawRange(0, 0)
+  return { geometry, count: 0, normals: [] }
+}
+
+const tangent = new THREE.Vector3()
+const binormal = new THREE.Vector3()
+const radial = new THREE.Vector3()
+
+function writeRing(growing: GrowingStroke, stroke: PenStroke, index: number) {
+  const points = stroke.points
+  const before = points[Math.max(0, index - 1)]
+  const after = points[Math.min(points.length - 1, index + 1)]
+  tangent.set(after.x - before.x, after.y - before.y, after.z - before.z).normalize()
+
+  // Carry the previous ring's normal round the bend so the tube does not twist
+  const previous = growing.normals[index - 1]
+  const normal = previous ? previous.clone() : new THREE.Vector3(0, 1, 0)
+  normal.addScaledVector(tangent, -normal.dot(tangent))
+  if (normal.lengthSq() < 1e-8) normal.set(1, 0, 0).addScaledVector(tangent, -tangent.x)
+  normal.normalize()
+  growing.normals[index] = normal
+  binormal.crossVectors(tangent, normal)
+
+  const point = points[index]
+  const radius = pointThickness(stroke, point)
+  const position = growing.geometry.attributes.position as THREE.BufferAttribute
+  const normalAttribute = growing.geometry.attributes.normal as THREE.BufferAttribute
+  for (let j = 0; j < RING; j++) {
+    const angle = (j / RADIAL_SEGMENTS) * Math.PI * 2
+    radial.copy(normal).multiplyScalar(Math.cos(angle)).addScaledVector(binormal, Math.sin(angle))
+    position.setXYZ(index * RING + j, point.x + radial.x * radius, point.y + radial.y * radius, point.z + radial.z * radius)
+    normalAttribute.setXYZ(index * RING + j, radial.x, radial.y, radial.z)
+  }
+}
+
+// Write rings for any points added since the last call. The previous last
+// ring is rewritten too, since its tangent now has a point after it.
+export function growStroke(growing: GrowingStroke, stroke: PenStroke) {
+  const maxPoints = (growing.geometry.attributes.position as THREE.BufferAttribute).count / RING
+  const total = Math.min(stroke.points.length, maxPoints)
+  if (total <= growing.count) return
+
+  const from = Math.max(0, growing.count - 1)
+  for (let i = from; i < total; i++) writeRing(growing, stroke, i)
+  growing.count = total
+
+  const position = growing.geometry.attributes.position as THREE.BufferAttribute
+  const normal = growing.geometry.attributes.normal as THREE.BufferAttribute
+  position.clearUpdateRanges()
+  position.addUpdateRange(from * RING * 3, (total - from) * RING * 3)
+  position.needsUpdate = true
+  normal.clearUpdateRanges()
+  normal.addUpdateRange(from * RING * 3, (total - from) * RING * 3)
+  normal.needsUpdate = true
+
+  growing.geometry.setDrawRange(0, Math.max(0, total - 1) * RADIAL_SEGMENTS * 6)
+}
@@ -2,8 +2,16 @@ import React from 'react'
 import ReactDOM from 'react-dom/client'
 import { Toaster } from 'react-hot-toast'
 import App from './App'
+import { setTransportFactory } from './realtime/channel'
+import { createMemoryNetwork } from './realtime/memory-transport'
 import './index.css'
 
+// In development, `?transport=memory` plays rooms over an in-page loopback
+// network instead of Blink realtime, for working on the game without the service
+if (import.meta.env.DEV && new URLSearchParams(window.location.search).get('transport') === 'memory') {
+  setTransportFactory(createMemoryNetwork().createTransport)
+}
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <Toaster position="top-right" />
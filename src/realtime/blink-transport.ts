@@ -0,0 +1,16 @@
+import { blink } from '../blink/client'
+import type { RealtimeTransport } from './transport'
+
+export function createBlinkTransport(channelName: string): RealtimeTransport {
+  const channel = blink.realtime.channel(channelName)
+
+  return {
+    subscribe: options => channel.subscribe(options),
+    publish: async (type, data) => {
+      await channel.publish(type, data)
+    },
+    onMessage: callback => channel.onMessage(callback),
+    onPresence: callback => channel.onPresence(callback),
+    unsubscribe: () => channel.unsubscribe()
+  }
+}
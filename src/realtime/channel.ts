@@ -0,0 +1,14 @@
+import { createBlinkTransport } from './blink-transport'
+import type { RealtimeTransport, TransportFactory } from './transport'
+
+let transportFactory: TransportFactory = createBlinkTransport
+
+// Every realtime channel in the app is opened through here
+export function openChannel(channelName: string): RealtimeTransport {
+  return transportFactory(channelName)
+}
+
+// Swap the backing transport, e.g. for createMemoryNetwork().createTransport when offline
+export function setTransportFactory(factory: TransportFactory) {
+  transportFactory = factory
+}
@@ -0,0 +1,101 @@
+import type { PresenceMember, RealtimeTransport, TransportFactory, TransportMessage } from './transport'
+
+// In-process loopback network: every transport created from the same network
+// shares channels, so several simulated clients can play against each other
+// without the Blink service. Delivery is asynchronous and in publish order,
+// and publishers receive their own messages, matching blink.realtime.
+
+interface Endpoint {
+  userId?: string
+  messageListeners: Set<(message: TransportMessage) => void>
+  presenceListeners: Set<(members: PresenceMember[]) => void>
+}
+
+interface MemoryChannel {
+  members: Map<string, PresenceMember>
+  endpoints: Set<Endpoint>
+}
+
+export interface MemoryNetwork {
+  createTransport: TransportFactory
+  // Current presence of a channel, for assertions and debugging
+  members(channelName: string): PresenceMember[]
+}
+
+export function createMemoryNetwork(now: () => number = Date.now): MemoryNetwork {
+  const channels = new Map<string, MemoryChannel>()
+  let messageCount = 0
+
+  const getChannel = (name: string) => {
+    let channel = channels.get(name)
+    if (!channel) {
+      channel = { members: new Map(), endpoints: new Set() }
+      channels.set(name, channel)
+    }
+    return channel
+  }
+
+  const notifyPresence = (channel: MemoryChannel) => {
+    const members = [...channel.members.values()]
+    channel.endpoints.forEach(endpoint => {
+      endpoint.presenceListeners.forEach(listener => queueMicrotask(() => listener(members)))
+    })
+  }
+
+  const createTransport = (channelName: string): RealtimeTransport => {
+    const channel = getChannel(channelName)
+    const endpoint: Endpoint = { messageListeners: new Set(), presenceListeners: new Set() }
+
+    return {
+      async subscribe({ userId, metadata }) {
+        const time = now()
+        endpoint.userId = userId
+        channel.endpoints.add(endpoint)
+        channel.members.set(userId, { userId, metadata, joinedAt: time, lastSeen: time })
+        notifyPresence(channel)
+      },
+
+      async publish(type, data) {
+        const message: TransportMessage = {
+          id: `memory-${++messageCount}`,
+          type,
+          data: structuredClone(data),
+          timestamp: now(),
+          userId: endpoint.userId
+        }
+        channel.endpoints.forEach(target => {
+          target.messageListeners.forEach(listener => queueMicrotask(() => listener(message)))
+        })
+      },
+
+      onMessage(callback) {
+        endpoint.messageListeners.add(callback)
+        return () => endpoint.messageListeners.delete(callback)
+      },
+
+      onPresence(callback) {
+        endpoint.presenceListeners.add(callback)
+        if (channel.endpoints.has(endpoint)) {
+          const members = [...channel.members.values()]
+          queueMicrotask(() => callback(members))
+        }
+        return () => endpoint.presenceListeners.delete(callback)
+      },
+
+      async unsubscribe() {
+        channel.endpoints.delete(endpoint)
+        if (endpoint.userId) {
+          channel.members.delete(endpoint.userId)
+        }
+        endpoint.messageListeners.clear()
+        endpoint.presenceListeners.clear()
+        notifyPresence(channel)
+      }
+    }
+  }
+
+  return {
+    createTransport,
+    members: channelName => [...getChannel(channelName).members.values()]
+  }
+}
@@ -0,0 +1,88 @@
+import type { RealtimeTransport, TransportMessage } from './transport'
+
+// Degrades message delivery of any transport so sync code can be exercised
+// under bad networks. Conditions apply to inbound messages: every message
+// crosses the network once, so each receiver sees them once.
+
+export interface NetworkConditions {
+  latencyMs: number
+  jitterMs: number
+  packetLoss: number // 0..1
+  reorderChance: number // 0..1, held back long enough to arrive after later messages
+  duplicateChance: number // 0..1
+}
+
+export const PERFECT_NETWORK: NetworkConditions = {
+  latencyMs: 0,
+  jitterMs: 0,
+  packetLoss: 0,
+  reorderChance: 0,
+  duplicateChance: 0
+}
+
+let currentConditions: NetworkConditions = PERFECT_NETWORK
+const conditionListeners = new Set<() => void>()
+
+export function getNetworkConditions(): NetworkConditions {
+  return currentConditions
+}
+
+export function setNetworkConditions(update: Partial<NetworkConditions>) {
+  currentConditions = { ...currentConditions, ...update }
+  conditionListeners.forEach(listener => listener())
+}
+
+export function subscribeNetworkConditions(listener: () => void): () => void {
+  conditionListeners.add(listener)
+  return () => conditionListeners.delete(listener)
+}
+
+function isPerfect(conditions: NetworkConditions): boolean {
+  return Object.values(conditions).every(value => value === 0)
+}
+
+export function createSimulatedTransport(
+  inner: RealtimeTransport,
+  getConditions: () => NetworkConditions = getNetworkConditions
+): RealtimeTransport {
+  const pending = new Set<ReturnType<typeof setTimeout>>()
+
+  const deliverLater = (deliver: () => void, delayMs: number) => {
+    const timeout = setTimeout(() => {
+      pending.delete(timeout)
+      deliver()
+    }, delayMs)
+    pending.add(timeout)
+  }
+
+  const degrade = (message: TransportMessage, deliver: (message: TransportMessage) => void) => {
+    const conditions = getConditions()
+    if (isPerfect(conditions)) {
+      deliver(message)
+      return
+    }
+    if (Math.random() < conditions.packetLoss) return
+
+    const delay = () => conditions.latencyMs + Math.random() * conditions.jitterMs
+    const reorderDelay = Math.random() < conditions.reorderChance
+      ? conditions.jitterMs + Math.max(50, conditions.latencyMs / 2)
+      : 0
+
+    deliverLater(() => deliver(message), delay() + reorderDelay)
+    if (Math.random() < conditions.duplicateChance) {
+      deliverLater(() => deliver(message), delay() + reorderDelay)
+    }
+  }
+
+  return {
+    subscribe: options => inner.subscribe(options),
+    publish: (type, data) => inner.publish(type, data),
+    onMessage: callback => inner.onMessage(message => degrade(message, callback)),
+    onPresence: callback => inner.onPresence(callback),
+    unsubscribe: () => {
+      pending.forEach(timeout => clearTimeout(timeout))
+      pending.clear()
+      return inner.unsubscribe()
+    }
+  }
+}
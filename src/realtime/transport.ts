@@ -0,0 +1,33 @@
+// Minimal realtime channel surface the game needs. blink.realtime is one
+// implementation; the in-memory loopback is another for offline play and tests.
+
+export interface TransportMessage {
+  id: string
+  type: string
+  data: unknown
+  timestamp: number
+  userId?: string
+}
+
+export interface PresenceMember {
+  userId: string
+  metadata?: Record<string, any>
+  joinedAt: number
+  lastSeen: number
+}
+
+export interface SubscribeOptions {
+  userId: string
+  metadata?: Record<string, any>
+}
+
+export interface RealtimeTransport {
+  subscribe(options: SubscribeOptions): Promise<void>
+  publish(type: string, data: unknown): Promise<void>
+  onMessage(callback: (message: TransportMessage) => void): () => void
+  onPresence(callback: (members: PresenceMember[]) => void): () => void
+  unsubscribe(): Promise<void>
+}
+
+// Opens a transport for a named channel, e.g. `game-room-${roomId}`
+export type TransportFactory = (channelName: string) => RealtimeTransport
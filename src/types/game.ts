@@ -13,6 +13,21 @@ export interface Player {
   kills: number
   deaths: number
   team?: string
+  ink: number
+  lastStrokeAt?: number // simulation time of the last accepted stroke, for the cooldown
+  respawnAt?: number // simulation time a fallen fighter returns; unset while alive
+  lastKilledBy?: string // who dealt the last lethal hit
+  stats: MatchStats
+}
+
+// Per-match tallies, kept by the authority while the match is being played
+export interface MatchStats {
+  damageDealt: number
+  damageTaken: number
+  strokesDrawn: number
+  attacks: number // attack strokes and offensive special attacks fired
+  hits: number // how many of those hurt someone
+  powerUpsCollected: number
 }
 
 export interface ActivePowerUp {
@@ -23,10 +38,29 @@ export interface ActivePowerUp {
 
 export interface PenStroke {
   id: string
-  points: { x: number; y: number; z: number }[]
+  points: StrokePoint[]
   color: string
   thickness: number
-  timestamp: number
+  timestamp: number // when drawing began, on the match clock
+  special?: SpecialAttackKind // set once the authority has accepted a gesture for this stroke
+  behavior?: StrokeBehavior // defaults to 'attack'
+  expiresAt?: number // simulation time at which a wall or trap decays
+  triggeredBy?: string[] // traps: players it has already hurt
+}
+
+// Attack strokes hit once when drawn; walls block movement and enemy strokes; traps hurt whoever crosses them
+export type StrokeBehavior = 'attack' | 'wall' | 'trap'
+
+// Special attacks unlocked by drawing a recognised gesture (src/game/gestures.ts)
+export type SpecialAttackKind = 'shield_ring' | 'projectile' | 'lightning' | 'vortex' | 'shockwave'
+
+// Pen input adds pressure (0..1) and tilt (degrees from upright); mouse and touch leave them out
+export interface StrokePoint {
+  x: number
+  y: number
+  z: number
+  pressure?: number
+  tilt?: number
 }
 
 export interface GameState {
@@ -37,13 +71,38 @@ export interface GameState {
     name: string
     duration: number
     maxPlayers: number
+    friendlyFire?: boolean // team modes: the room's choice, or the mode's default when unset
   }
   powerUps: Record<string, PowerUpData>
-  startTime?: number
-  endTime?: number
+  startTime?: number // when play begins, once a countdown is under way
+  endTime?: number // while playing, when a timed match is due to end; once finished, when it did
   winner?: string
+  winningTeam?: string // team modes only
   roomId: string
   leaderboard: LeaderboardEntry[]
+  // Highest movement command sequence the authority has applied, per player
+  inputAcks?: Record<string, number>
+  // Off the authority: its clock when it sent the snapshot we last adopted
+  snapshotTime?: number
+}
+
+// Snapshots leave stroke points out: they travel once, in pen_stroke or
+// stroke_sync. What the authority changes after a stroke lands comes along.
+export interface StrokeState {
+  id: string
+  expiresAt?: number
+  special?: SpecialAttackKind
+  triggeredBy?: string[]
+}
+
+export type PlayerSnapshot = Omit<Player, 'penStrokes'> & { penStrokes: StrokeState[] }
+
+export type GameSnapshot = Omit<GameState, 'players'> & { players: Record<string, PlayerSnapshot> }
+
+// A stroke with the fighter who drew it, as the authority resends it
+export interface OwnedStroke {
+  ownerId: string
+  stroke: PenStroke
 }
 
 export interface PowerUpData {
@@ -57,14 +116,82 @@ export interface PowerUpData {
 export interface LeaderboardEntry {
   playerId: string
   playerName: string
+  team?: string
   score: number
   kills: number
   deaths: number
+  stats: MatchStats
 }
 
-export interface GameMessage {
-  type: 'player_move' | 'pen_stroke' | 'player_attack' | 'game_state' | 'player_join' | 'player_leave' | 'power_up_spawn' | 'power_up_collect' | 'game_mode_change' | 'countdown_start'
-  playerId: string
-  data: any
-  timestamp: number
-}
\ No newline at end of file
+// Payload carried by each realtime message type (validated in src/game/protocol.ts)
+export interface GameMessagePayloads {
+  player_move: { playerId: string; position: Vector3; rotation: Vector3; commands: MoveCommand[] }
+  // viewTime: when the attacker saw the positions they aimed at, for lag compensation
+  pen_stroke: { playerId: string; stroke: PenStroke; viewTime: number }
+  // Claims that stroke `strokeId` was drawn as a gesture; the authority re-checks it
+  player_attack: { playerId: string; strokeId: string; attack: SpecialAttackKind; viewTime: number }
+  game_state: { playerId: string; state: GameSnapshot; time: number }
+  player_join: { playerId: string; name: string; color: string }
+  player_leave: { playerId: string }
+  power_up_spawn: { powerUp: PowerUpData }
+  power_up_collect: { playerId: string; powerUpId: string }
+  game_mode_change: { gameMode: GameState['gameMode'] }
+  countdown_start: { startTime: number; countdownMs: number }
+  // Clock sync (src/game/clock.ts): sentAt is the requester's local time, hostTime the host's match clock
+  clock_ping: { playerId: string; sentAt: number }
+  clock_pong: { playerId: string; requesterId: string; sentAt: number; hostTime: number }
+  rematch_request: { playerId: string }
+  // Asks the authority for strokes a snapshot names that we never received
+  stroke_request: { playerId: string; strokeIds: string[] }
+  stroke_sync: { playerId: string; strokes: OwnedStroke[] }
+}
+
+export type GameMessageType = keyof GameMessagePayloads
+
+export type GameMessage = {
+  [K in GameMessageType]: {
+    type: K
+    playerId: string
+    data: GameMessagePayloads[K]
+    timestamp: number
+  }
+}[GameMessageType]
+
+export type Vector3 = { x: number; y: number; z: number }
+
+// One tick of held movement input, numbered so the authority can acknowledge it
+export interface MoveCommand {
+  seq: number
+  direction: { x: number; z: number }
+}
+
+// Inputs consumed by the simulation core (src/game/simulation.ts), applied in timestamp order
+export type SimulationInput =
+  | { type: 'presence'; timestamp: number; playerIds: string[] }
+  | { type: 'player_join'; playerId: string; timestamp: number; name: string; color: string }
+  | { type: 'player_leave'; playerId: string; timestamp: number }
+  | { type: 'move_input'; playerId: string; timestamp: number; direction: { x: number; z: number } }
+  | { type: 'player_move'; playerId: string; timestamp: number; position: Vector3; rotation: Vector3; commands: MoveCommand[] }
+  | { type: 'pen_stroke'; playerId: string; timestamp: number; stroke: PenStroke; viewTime?: number }
+  | { type: 'player_attack'; playerId: string; timestamp: number; strokeId: string; attack: SpecialAttackKind; viewTime?: number }
+  | { type: 'power_up_spawn'; timestamp: number; powerUp: PowerUpData }
+  | { type: 'power_up_collect'; playerId: string; timestamp: number; powerUpId: string }
+  | { type: 'countdown_start'; timestamp: number; startTime: number }
+  | { type: 'rematch'; playerId: string; timestamp: number }
+  | { type: 'stroke_sync'; timestamp: number; strokes: OwnedStroke[] }
+  | { type: 'game_state'; timestamp: number; game: GameSnapshot; sentAt: number; localPlayerId?: string }
+  | { type: 'host_migration'; timestamp: number; game: GameSnapshot | null; localPlayerId: string }
+
+// Side effects produced by a simulation step, for networking, audio and UI
+export type SimulationEvent =
+  | { type: 'player_moved'; playerId: string; position: Vector3; rotation: Vector3; commands: MoveCommand[] }
+  | { type: 'player_hit'; playerId: string; attackerId: string; damage: number }
+  | { type: 'player_killed'; playerId: string; killerId: string }
+  | { type: 'player_respawned'; playerId: string; position: Vector3 }
+  | { type: 'countdown_started'; startTime: number; countdownMs: number }
+  | { type: 'match_started' }
+  | { type: 'match_finished'; winner?: string; winningTeam?: string }
+  | { type: 'power_up_spawned'; powerUp: PowerUpData }
+  | { type: 'power_up_collected'; playerId: string; powerUpId: string }
+  | { type: 'power_up_expired'; powerUpId: string }
+  | { type: 'strokes_missing'; strokeIds: string[] }